@@ -2,17 +2,105 @@
  * Plugin entry point for the background picker.
  * Why: connects Obsidian lifecycle, settings, and UI actions.
  * Related: src/settings.ts, src/ui/background-picker-overlay.ts, src/utils/image-utils.ts */
-import {normalizePath, Plugin, TFile} from "obsidian";
+import {getAllTags, normalizePath, Notice, Plugin, TFile} from "obsidian";
 import {
 	buildLocalVaultServerBaseUrl,
 	findLocalVaultServerEntry,
 	getLocalVaultServerApi,
 	LocalVaultServerApi,
 } from "./integrations/local-vault-server";
-import {DEFAULT_SETTINGS, MyPluginSettings, MyPluginSettingTab} from "./settings";
+import {
+	DEFAULT_SETTINGS,
+	MyPluginSettings,
+	MyPluginSettingTab,
+	THEME_SLOTS,
+	ThemeSlot,
+} from "./settings";
+import {BackgroundLayer} from "./ui/background-layer";
 import {BackgroundPickerOverlay} from "./ui/background-picker-overlay";
-import {normalizeRgbaString} from "./utils/color-utils";
-import {buildUrlFromRelative, resolveVaultFolderPath} from "./utils/image-utils";
+import {
+	ColorPalette,
+	ContrastContext,
+	extractPalette,
+	formatRgbaColor,
+	normalizeRgbaString,
+	parseRgbaColor,
+	suggestDarkThemeColors,
+	ThemeColorSuggestion,
+	TonalStep,
+} from "./utils/color-utils";
+import {
+	CssVariableTarget,
+	DEFAULT_CSS_VALUE_TEMPLATE,
+	isValidCssVariableName,
+	renderCssValueTemplate,
+} from "./utils/css-target-utils";
+import {
+	COLLECTION_FILTER_FAVORITES,
+	findCollection,
+	renameCollectionPaths,
+	renamePath,
+	renamePathKeys,
+	toggleCollectionPath,
+} from "./utils/collection-utils";
+import {
+	BackgroundEffects,
+	buildEffectVariables,
+	EFFECT_VARIABLE_SUFFIXES,
+	normalizeBackgroundEffects,
+} from "./utils/effect-utils";
+import {
+	buildGradientCss,
+	findGradient,
+	getGradientReference,
+	isGradientReference,
+} from "./utils/gradient-utils";
+import {pruneHistory, pushHistoryEntry} from "./utils/history-utils";
+import {
+	buildUrlFromRelative,
+	isVideoPath,
+	normalizeBackgroundReference,
+	loadCanvasImage,
+	preloadImage,
+	resolveVaultFolderPath,
+	sampleImagePixels,
+} from "./utils/image-utils";
+import {
+	AppearanceProfile,
+	applyAppearanceProfile,
+	captureAppearanceProfile,
+	cloneAppearanceProfile,
+	createProfileId,
+} from "./utils/profile-utils";
+import {
+	buildRotationOrder,
+	findPlaylist,
+	isSameRotationSet,
+	normalizePlaylistPath,
+	pickNextRotationPath,
+} from "./utils/rotation-utils";
+import {findMatchingRule} from "./utils/rule-utils";
+import {findActiveScheduleEntry, ScheduleEntry} from "./utils/schedule-utils";
+import {
+	buildThemeVariableCss,
+	getTonalVariableName,
+	ThemeVariableScope,
+	upsertThemeVariables,
+} from "./utils/theme-variable-utils";
+
+const PALETTE_CACHE_LIMIT = 32;
+
+// Obsidian's default background and text colors per base theme.
+const CONTRAST_FALLBACKS: Record<ThemeSlot, ContrastContext> = {
+	dark: {backdrop: {r: 30, g: 30, b: 30, a: 1}, text: {r: 218, g: 218, b: 218, a: 1}},
+	light: {backdrop: {r: 255, g: 255, b: 255, a: 1}, text: {r: 34, g: 34, b: 34, a: 1}},
+};
+
+interface ResolvedBackground {
+	url: string;
+	// Folder-relative path when possible; used to look up per-image effects.
+	key: string;
+}
 
 export default class DivergencesPlusPlugin extends Plugin {
 	settings: MyPluginSettings;
@@ -21,6 +109,27 @@ export default class DivergencesPlusPlugin extends Plugin {
 	private cacheWarmupIsIdle = false;
 	private localServerUnsubscribe: (() => void) | null = null;
 	private themeStyleEl: HTMLStyleElement | null = null;
+	private rotationTimer: number | null = null;
+	private rotationPaused = false;
+	private rotationBusy = false;
+	private rotationShuffleOrder: string[] = [];
+	private lastScheduleKey: string | null = null;
+	private schedulePlaylistName = "";
+	private noteBackground: ResolvedBackground | null = null;
+	private backgroundLayer: BackgroundLayer | null = null;
+	private applyTokens = new Map<string, number>();
+	// Extra variables last written per slot, so renamed or deleted targets get cleaned up.
+	private writtenTargetNames = new Map<ThemeSlot, Set<string>>();
+	// Rule target per file path ("" = no match) so tab switches skip rescans.
+	private ruleMatchCache = new Map<string, string>();
+	private profileCommandIds: string[] = [];
+	// Dark background URL the theme colors were last derived from.
+	private lastDerivedColorUrl = "";
+	// Set while the picker previews a tile; nothing is derived or saved from a preview.
+	private isPreviewingBackground = false;
+	private paletteCache = new Map<string, ColorPalette | null>();
+	// Image URL currently shown per slot, including note and rule backgrounds.
+	private appliedBackgroundUrls = new Map<ThemeSlot, string>();
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
@@ -30,12 +139,125 @@ export default class DivergencesPlusPlugin extends Plugin {
 		this.ensureBackgroundPicker();
 		this.scheduleCacheWarmup();
 
+		// Obsidian fires css-change when the base theme flips between light and dark.
+		this.registerEvent(
+			this.app.workspace.on("css-change", () => this.applySelectedBackground())
+		);
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => this.refreshNoteBackground())
+		);
+		// Video backgrounds only play while the window is visible and focused.
+		const syncPlayback = (): void => {
+			this.backgroundLayer?.setPlaybackAllowed(this.isWindowActive());
+		};
+		this.registerDomEvent(window, "focus", syncPlayback);
+		this.registerDomEvent(window, "blur", syncPlayback);
+		this.registerDomEvent(document, "visibilitychange", syncPlayback);
+		this.registerEvent(this.app.workspace.on("file-open", () => this.refreshNoteBackground()));
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				// Tags may have changed, so the cached rule match is no longer trustworthy.
+				this.ruleMatchCache.delete(file.path);
+				if (file.path === this.app.workspace.getActiveFile()?.path) {
+					this.refreshNoteBackground();
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.ruleMatchCache.delete(oldPath);
+				this.ruleMatchCache.delete(file.path);
+				this.renameImageReferences(oldPath, file.path);
+				this.pruneBackgroundHistory();
+				if (file.path === this.app.workspace.getActiveFile()?.path) {
+					this.refreshNoteBackground();
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.ruleMatchCache.delete(file.path);
+				this.pruneBackgroundHistory();
+			})
+		);
+		this.app.workspace.onLayoutReady(() => this.refreshNoteBackground());
+
 		this.addCommand({
 			id: "open-background-picker",
 			name: "Open background picker",
 			callback: () => this.openBackgroundPicker(),
 		});
 
+		this.addCommand({
+			id: "pause-background-rotation",
+			name: "Pause background rotation",
+			checkCallback: (checking) => {
+				if (!this.settings.rotationEnabled || this.rotationPaused) {
+					return false;
+				}
+				if (!checking) {
+					this.pauseRotation();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "resume-background-rotation",
+			name: "Resume background rotation",
+			checkCallback: (checking) => {
+				if (!this.settings.rotationEnabled || !this.rotationPaused) {
+					return false;
+				}
+				if (!checking) {
+					this.resumeRotation();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "next-rotation-background",
+			name: "Show next background in rotation",
+			callback: async () => {
+				const advanced = await this.advanceRotation();
+				if (!advanced) {
+					new Notice("No other background available for rotation.");
+					return;
+				}
+				// Give the new background a full interval before the next change.
+				this.restartRotation();
+			},
+		});
+
+		this.addCommand({
+			id: "previous-background",
+			name: "Show previous background",
+			callback: async () => {
+				const moved = await this.stepBackgroundHistory("previous");
+				if (!moved) {
+					new Notice("No earlier background in history.");
+				}
+			},
+		});
+
+		this.addCommand({
+			id: "next-history-background",
+			name: "Show next background in history",
+			callback: async () => {
+				const moved = await this.stepBackgroundHistory("next");
+				if (!moved) {
+					new Notice("Already at the newest background in history.");
+				}
+			},
+		});
+
+		this.syncProfileCommands();
+		// Restarts replace the timer, so cleanup is registered once rather than per interval id.
+		this.register(() => this.stopRotationTimer());
+		this.restartRotation();
+		this.startScheduleWatcher();
+
 		this.addSettingTab(new MyPluginSettingTab(this.app, this));
 	}
 
@@ -48,45 +270,61 @@ export default class DivergencesPlusPlugin extends Plugin {
 		this.localServerUnsubscribe?.();
 		this.localServerUnsubscribe = null;
 		this.clearCacheWarmup();
-		this.themeStyleEl?.remove();
-		this.themeStyleEl = null;
+		// Close first: a picker preview restores the background, which needs the layer.
 		this.backgroundPicker?.close();
 		this.backgroundPicker = null;
+		this.themeStyleEl?.remove();
+		this.themeStyleEl = null;
+		this.backgroundLayer?.destroy();
+		this.backgroundLayer = null;
 	}
 
 	applySelectedBackground(): void {
-		const url = this.getSelectedImageUrl();
-		if (!url) {
-			if (
-				this.settings.selectedImagePath.trim().length > 0 &&
-				this.isLinkedToVaultFolder()
-			) {
-				void this.clearBackgroundSelection();
-				return;
+		if (this.noteBackground) {
+			// Frontmatter or rule backgrounds win over both theme slots while the note is focused.
+			for (const slot of THEME_SLOTS) {
+				this.applyBackgroundUrl(this.noteBackground.url, slot, this.noteBackground.key);
 			}
-			this.clearCssBackground();
 			return;
 		}
-		this.applyBackgroundUrl(url);
+		const activeSlot = this.getActiveThemeSlot();
+		// Apply the active slot last so it wins when both slots share one variable.
+		const slots = THEME_SLOTS.filter((slot) => slot !== activeSlot);
+		slots.push(activeSlot);
+		for (const slot of slots) {
+			this.applySlotBackground(slot);
+		}
 	}
 
-	getSelectedImageUrl(): string {
+	getActiveThemeSlot(): ThemeSlot {
+		return document.body.classList.contains("theme-light") ? "light" : "dark";
+	}
+
+	getSelectedImagePath(slot: ThemeSlot): string {
+		return slot === "light"
+			? this.settings.selectedImagePathLight
+			: this.settings.selectedImagePath;
+	}
+
+	getSelectedImageUrl(slot: ThemeSlot = this.getActiveThemeSlot()): string {
+		return this.getImageUrlForPath(this.getSelectedImagePath(slot));
+	}
+
+	getImageUrlForPath(value: string): string {
 		const baseUrl = this.settings.serverBaseUrl.trim();
-		const relativePath = this.settings.selectedImagePath.trim();
+		const relativePath = value.trim();
 		if (!relativePath) {
 			return "";
 		}
+		if (isGradientReference(relativePath)) {
+			// Gradients have no URL; the reference itself flows through to applyBackgroundUrl.
+			return findGradient(this.settings.gradients, relativePath) ? relativePath : "";
+		}
 		const localUrl = this.getLocalImageUrl(relativePath);
 		if (this.isLinkedToVaultFolder() && !localUrl) {
 			return "";
 		}
-		// When linked or protected, prefer the server URL to avoid showing local-only files.
-		const preferRemote =
-			Boolean(baseUrl) &&
-			(this.settings.useRemoteIndex ||
-				this.settings.authToken.trim().length > 0 ||
-				this.settings.linkedServerEntryId.trim().length > 0);
-		if (preferRemote && baseUrl) {
+		if (this.prefersRemoteImageUrls()) {
 			return buildUrlFromRelative(baseUrl, relativePath);
 		}
 		if (localUrl) {
@@ -95,20 +333,182 @@ export default class DivergencesPlusPlugin extends Plugin {
 		return baseUrl ? buildUrlFromRelative(baseUrl, relativePath) : "";
 	}
 
-	getCssVariableName(): string {
+	getCssVariableName(slot: ThemeSlot = this.getActiveThemeSlot()): string {
+		if (slot === "light") {
+			const lightName = this.settings.cssVariableNameLight.trim();
+			return lightName.length > 0 ? lightName : DEFAULT_SETTINGS.cssVariableNameLight;
+		}
 		const name = this.settings.cssVariableName.trim();
-		return name.length > 0 ? name : "--anp-background-image-dark";
+		return name.length > 0 ? name : DEFAULT_SETTINGS.cssVariableName;
+	}
+
+	/**
+	 * The primary variable for `slot` followed by any valid extra targets, without duplicates.
+	 */
+	getCssVariableTargets(slot: ThemeSlot = this.getActiveThemeSlot()): CssVariableTarget[] {
+		const primary = this.getCssVariableName(slot);
+		const targets: CssVariableTarget[] = [
+			{slot, name: primary, template: DEFAULT_CSS_VALUE_TEMPLATE},
+		];
+		const seen = new Set([primary]);
+		for (const target of this.settings.cssVariableTargets) {
+			const name = target.name.trim();
+			if (target.slot !== slot || !isValidCssVariableName(name) || seen.has(name)) {
+				continue;
+			}
+			seen.add(name);
+			targets.push({slot, name, template: target.template});
+		}
+		return targets;
 	}
 
-	applyBackgroundUrl(url: string): void {
-		const cssVar = this.getCssVariableName();
-		const safeUrl = url.replace(/"/g, "%22");
-		document.body.style.setProperty(cssVar, `url("${safeUrl}")`);
+	applyBackgroundUrl(
+		url: string,
+		slot: ThemeSlot = this.getActiveThemeSlot(),
+		effectsKey = this.getSelectedImagePath(slot)
+	): void {
+		const cssVar = this.getCssVariableName(slot);
+		const gradient = findGradient(this.settings.gradients, url);
+		if (gradient) {
+			// Nothing to preload; still bump the token so pending image loads are dropped.
+			this.nextApplyToken(cssVar);
+			this.commitBackgroundUrl(url, buildGradientCss(gradient), slot, effectsKey);
+			return;
+		}
+		const isVideo = isVideoPath(effectsKey || url);
+		// Videos render on the layer; the variable is blanked so themes don't show a broken url().
+		const value = isVideo ? "none" : renderCssValueTemplate(DEFAULT_CSS_VALUE_TEMPLATE, url);
+		// Tokens are per variable so a later apply or clear cancels a pending preload.
+		const token = this.nextApplyToken(cssVar);
+		if (isVideo || document.body.style.getPropertyValue(cssVar) === value) {
+			this.commitBackgroundUrl(url, value, slot, effectsKey);
+			return;
+		}
+		// Preload first so the swap never shows an empty background while decoding.
+		void preloadImage(url).then(() => {
+			if (this.applyTokens.get(cssVar) !== token) {
+				return;
+			}
+			this.commitBackgroundUrl(url, value, slot, effectsKey);
+		});
 	}
 
-	clearCssBackground(): void {
-		const cssVar = this.getCssVariableName();
+	clearCssBackground(slot: ThemeSlot = this.getActiveThemeSlot()): void {
+		const cssVar = this.getCssVariableName(slot);
+		this.nextApplyToken(cssVar);
 		document.body.style.removeProperty(cssVar);
+		for (const suffix of EFFECT_VARIABLE_SUFFIXES) {
+			document.body.style.removeProperty(`${cssVar}-${suffix}`);
+		}
+		const extraNames = new Set(this.writtenTargetNames.get(slot));
+		for (const target of this.getCssVariableTargets(slot).slice(1)) {
+			extraNames.add(target.name);
+		}
+		for (const name of extraNames) {
+			document.body.style.removeProperty(name);
+		}
+		this.writtenTargetNames.delete(slot);
+		this.appliedBackgroundUrls.delete(slot);
+		if (slot === this.getActiveThemeSlot()) {
+			this.backgroundLayer?.clear(this.getTransitionDuration());
+		}
+	}
+
+	private commitBackgroundUrl(
+		url: string,
+		value: string,
+		slot: ThemeSlot,
+		effectsKey: string
+	): void {
+		const cssVar = this.getCssVariableName(slot);
+		const duration = this.getTransitionDuration();
+		const isVideo = isVideoPath(effectsKey || url);
+		const isGradient = isGradientReference(url);
+		document.body.style.setProperty(cssVar, value);
+		// Templates wrap a URL, so gradients and blanked videos are written as-is.
+		this.commitExtraTargets(url, isVideo || isGradient ? value : null, slot);
+		// Themes can opt into `transition: background-image var(...)` for a CSS-only fade.
+		document.body.style.setProperty("--anp-background-transition-duration", `${duration}ms`);
+		// Effects sit next to the image variable, e.g. --anp-background-image-dark-blur.
+		const effectVariables = buildEffectVariables(this.getBackgroundEffects(effectsKey));
+		for (const suffix of EFFECT_VARIABLE_SUFFIXES) {
+			document.body.style.setProperty(`${cssVar}-${suffix}`, effectVariables[suffix]);
+		}
+		if (isVideo || isGradient) {
+			this.appliedBackgroundUrls.delete(slot);
+		} else {
+			this.appliedBackgroundUrls.set(slot, url);
+			if (slot === "dark" && !this.isPreviewingBackground) {
+				void this.autoDeriveThemeColors(url);
+			}
+		}
+		if (slot !== this.getActiveThemeSlot()) {
+			return;
+		}
+		if (isVideo) {
+			this.ensureBackgroundLayer().showVideo(url, effectVariables, duration);
+			return;
+		}
+		if (this.settings.renderBackgroundLayer) {
+			if (isGradient) {
+				this.ensureBackgroundLayer().showGradient(value, effectVariables, duration);
+				return;
+			}
+			this.ensureBackgroundLayer().show(url, effectVariables, duration);
+			return;
+		}
+		this.backgroundLayer?.clear(duration);
+	}
+
+	/**
+	 * Write the extra targets for `slot`. `fixedValue` bypasses the URL templates.
+	 */
+	private commitExtraTargets(url: string, fixedValue: string | null, slot: ThemeSlot): void {
+		const targets = this.getCssVariableTargets(slot);
+		const primaryNames = new Set(THEME_SLOTS.map((themeSlot) => this.getCssVariableName(themeSlot)));
+		const nextNames = new Set<string>();
+		for (const target of targets.slice(1)) {
+			nextNames.add(target.name);
+			const value = fixedValue ?? renderCssValueTemplate(target.template, url);
+			document.body.style.setProperty(target.name, value);
+		}
+		// Drop variables from targets that were renamed or deleted since the last write.
+		for (const name of this.writtenTargetNames.get(slot) ?? []) {
+			if (!nextNames.has(name) && !primaryNames.has(name)) {
+				document.body.style.removeProperty(name);
+			}
+		}
+		this.writtenTargetNames.set(slot, nextNames);
+	}
+
+	private ensureBackgroundLayer(): BackgroundLayer {
+		if (!this.backgroundLayer) {
+			this.backgroundLayer = new BackgroundLayer();
+			this.backgroundLayer.setPlaybackAllowed(this.isWindowActive());
+		}
+		return this.backgroundLayer;
+	}
+
+	private isWindowActive(): boolean {
+		return document.visibilityState === "visible" && document.hasFocus();
+	}
+
+	private nextApplyToken(cssVar: string): number {
+		const token = (this.applyTokens.get(cssVar) ?? 0) + 1;
+		this.applyTokens.set(cssVar, token);
+		return token;
+	}
+
+	private getTransitionDuration(): number {
+		if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+			return 0;
+		}
+		return Math.max(this.settings.transitionDurationMs, 0);
+	}
+
+	getBackgroundEffects(imageKey: string): BackgroundEffects {
+		const override = this.settings.imageEffects[normalizePlaylistPath(imageKey)];
+		return normalizeBackgroundEffects(override ?? this.settings.defaultEffects);
 	}
 
 	applyThemeColors(): void {
@@ -120,28 +520,283 @@ export default class DivergencesPlusPlugin extends Plugin {
 			this.settings.themeDarkBase10,
 			DEFAULT_SETTINGS.themeDarkBase10
 		);
-		// Scope the variables to dark theme without touching light mode.
-		const css = `.theme-dark {\n  --my-color-base-00: ${base00};\n  --my-color-base-10: ${base10};\n}\n`;
+		const lightBase00 = normalizeRgbaString(
+			this.settings.themeLightBase00,
+			DEFAULT_SETTINGS.themeLightBase00
+		);
+		const lightBase10 = normalizeRgbaString(
+			this.settings.themeLightBase10,
+			DEFAULT_SETTINGS.themeLightBase10
+		);
+		// Scope each palette to its theme so switching modes needs no rewrite.
+		const css = buildThemeVariableCss(
+			{
+				body: [],
+				dark: [
+					["--my-color-base-00", base00],
+					["--my-color-base-10", base10],
+				],
+				light: [
+					["--my-color-base-00", lightBase00],
+					["--my-color-base-10", lightBase10],
+				],
+			},
+			this.settings.themeVariables
+		);
 		this.ensureThemeStyleEl().textContent = css;
 	}
 
+	/**
+	 * Write a generated scale as --my-color-base-XX. For theme scopes, 00 and 10 go to the
+	 * dedicated base settings because table rows would otherwise shadow them.
+	 */
+	async writeTonalScale(scope: ThemeVariableScope, scale: TonalStep[]): Promise<void> {
+		const entries: Array<[string, string]> = [];
+		for (const {step, color} of scale) {
+			const value = formatRgbaColor(color);
+			if (scope === "dark" && (step === 0 || step === 10)) {
+				this.settings[step === 0 ? "themeDarkBase00" : "themeDarkBase10"] = value;
+				continue;
+			}
+			if (scope === "light" && (step === 0 || step === 10)) {
+				this.settings[step === 0 ? "themeLightBase00" : "themeLightBase10"] = value;
+				continue;
+			}
+			entries.push([getTonalVariableName(step), value]);
+		}
+		this.settings.themeVariables = upsertThemeVariables(
+			this.settings.themeVariables,
+			scope,
+			entries
+		);
+		await this.saveSettings();
+		this.applyThemeColors();
+	}
+
+	/**
+	 * Sample the image on a small canvas; null for videos and images the canvas cannot read.
+	 */
+	async sampleBackgroundPalette(url: string): Promise<ColorPalette | null> {
+		if (!url || isVideoPath(url)) {
+			return null;
+		}
+		const cached = this.paletteCache.get(url);
+		if (cached !== undefined) {
+			return cached;
+		}
+		const pixels = await sampleImagePixels(url, this.settings.authToken.trim());
+		const palette = pixels ? extractPalette(pixels) : null;
+		if (this.paletteCache.size >= PALETTE_CACHE_LIMIT) {
+			this.paletteCache.clear();
+		}
+		this.paletteCache.set(url, palette);
+		return palette;
+	}
+
+	getAppliedBackgroundUrl(slot: ThemeSlot = this.getActiveThemeSlot()): string {
+		return this.appliedBackgroundUrls.get(slot) ?? "";
+	}
+
+	/**
+	 * Load the background shown for `slot` so its pixels can be read (eyedropper).
+	 */
+	async loadBackgroundForSampling(slot: ThemeSlot): Promise<HTMLImageElement | null> {
+		const url = this.getAppliedBackgroundUrl(slot) || this.getSelectedImageUrl(slot);
+		if (!url || isVideoPath(url)) {
+			return null;
+		}
+		return loadCanvasImage(url, this.settings.authToken.trim());
+	}
+
+	/**
+	 * Backdrop and text colors for contrast checks of the given theme slot.
+	 * Without a readable image the theme's plain background color is assumed.
+	 */
+	async getContrastContext(slot: ThemeSlot): Promise<ContrastContext> {
+		const fallback = CONTRAST_FALLBACKS[slot];
+		const palette = await this.sampleBackgroundPalette(this.getSelectedImageUrl(slot));
+		// --text-normal is only readable for the theme that is currently shown.
+		const themeText =
+			slot === this.getActiveThemeSlot()
+				? parseRgbaColor(getComputedStyle(document.body).getPropertyValue("--text-normal"))
+				: null;
+		return {
+			backdrop: palette?.average ?? fallback.backdrop,
+			text: themeText ?? fallback.text,
+		};
+	}
+
+	async applyThemeColorSuggestion(suggestion: ThemeColorSuggestion): Promise<void> {
+		this.settings.themeDarkBase00 = suggestion.base00;
+		this.settings.themeDarkBase10 = suggestion.base10;
+		await this.saveSettings();
+		this.applyThemeColors();
+	}
+
+	/**
+	 * Re-derive from the current dark background, e.g. after the option is turned on.
+	 */
+	refreshAutoThemeColors(): void {
+		this.lastDerivedColorUrl = "";
+		this.applySelectedBackground();
+	}
+
+	private async autoDeriveThemeColors(url: string): Promise<void> {
+		const settings = this.settings;
+		if (!settings.autoThemeColors || settings.themeColorsLocked) {
+			return;
+		}
+		if (url === this.lastDerivedColorUrl) {
+			return;
+		}
+		this.lastDerivedColorUrl = url;
+		const palette = await this.sampleBackgroundPalette(url);
+		// Skip if another background was applied or the colors were locked while sampling.
+		if (!palette || this.lastDerivedColorUrl !== url || settings.themeColorsLocked) {
+			return;
+		}
+		await this.applyThemeColorSuggestion(
+			suggestDarkThemeColors(palette, settings.autoThemeColorAlpha)
+		);
+	}
+
+	refreshNoteBackground(): void {
+		const file = this.app.workspace.getActiveFile();
+		// Frontmatter beats rules; both fall back to the global selection.
+		const reference = this.getNoteBackgroundReference(file) || this.getRuleBackgroundReference(file);
+		const next = file && reference ? this.resolveBackgroundReference(reference, file.path) : null;
+		const nextBackground = next?.url ? next : null;
+		if (nextBackground?.url === this.noteBackground?.url) {
+			return;
+		}
+		this.noteBackground = nextBackground;
+		this.applySelectedBackground();
+	}
+
+	invalidateBackgroundRules(): void {
+		this.ruleMatchCache.clear();
+		this.refreshNoteBackground();
+	}
+
+	private getRuleBackgroundReference(file: TFile | null): string {
+		if (!file || this.settings.backgroundRules.length === 0) {
+			return "";
+		}
+		let target = this.ruleMatchCache.get(file.path);
+		if (target === undefined) {
+			const fileCache = this.app.metadataCache.getFileCache(file);
+			const tags = fileCache ? getAllTags(fileCache) ?? [] : [];
+			const rule = findMatchingRule(this.settings.backgroundRules, file.path, tags);
+			target = rule?.target.trim() ?? "";
+			this.ruleMatchCache.set(file.path, target);
+		}
+		return normalizeBackgroundReference(target);
+	}
+
+	private getNoteBackgroundReference(file: TFile | null): string {
+		const key = this.settings.noteBackgroundKey.trim();
+		if (!this.settings.noteBackgroundsEnabled || !key || !file) {
+			return "";
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return normalizeBackgroundReference(frontmatter?.[key]);
+	}
+
+	private resolveBackgroundReference(reference: string, sourcePath: string): ResolvedBackground {
+		if (isGradientReference(reference)) {
+			return {url: this.getImageUrlForPath(reference), key: reference};
+		}
+		if (/^https?:\/\//i.test(reference)) {
+			return {url: reference, key: reference};
+		}
+		const folderPath = this.settings.imageFolderPath.trim();
+		const resolvedFolder = folderPath
+			? resolveVaultFolderPath(this.app, folderPath)
+			: {folderPath: "", errorMessage: "Image folder path is empty."};
+		const folderPrefix = resolvedFolder.errorMessage
+			? ""
+			: `${normalizePath(resolvedFolder.folderPath)}/`;
+		const vaultFile =
+			this.app.vault.getAbstractFileByPath(normalizePath(reference)) ??
+			this.app.metadataCache.getFirstLinkpathDest(reference, sourcePath);
+		if (vaultFile instanceof TFile) {
+			if (folderPrefix && vaultFile.path.startsWith(folderPrefix)) {
+				// Route through the regular resolution so server URLs are preferred when linked.
+				const relativePath = vaultFile.path.slice(folderPrefix.length);
+				return {url: this.getImageUrlForPath(relativePath), key: relativePath};
+			}
+			return {url: this.app.vault.getResourcePath(vaultFile), key: vaultFile.path};
+		}
+		// Not in the vault: treat it as relative to the image folder (remote-only sources).
+		const relativePath =
+			folderPrefix && reference.startsWith(folderPrefix)
+				? reference.slice(folderPrefix.length)
+				: reference;
+		return {url: this.getImageUrlForPath(relativePath), key: relativePath};
+	}
+
+	private applySlotBackground(slot: ThemeSlot): void {
+		const url = this.getSelectedImageUrl(slot);
+		if (!url) {
+			if (
+				this.getSelectedImagePath(slot).trim().length > 0 &&
+				this.isLinkedToVaultFolder()
+			) {
+				void this.clearBackgroundSelection(slot);
+				return;
+			}
+			this.clearCssBackground(slot);
+			return;
+		}
+		this.applyBackgroundUrl(url, slot);
+	}
+
+	/**
+	 * When linked or protected, prefer the server URL to avoid showing local-only files.
+	 */
+	private prefersRemoteImageUrls(): boolean {
+		return (
+			this.settings.serverBaseUrl.trim().length > 0 &&
+			(this.settings.useRemoteIndex ||
+				this.settings.authToken.trim().length > 0 ||
+				this.settings.linkedServerEntryId.trim().length > 0)
+		);
+	}
+
 	private getLocalImageUrl(relativePath: string): string {
+		const file = this.getVaultImageFile(relativePath);
+		return file ? this.app.vault.getResourcePath(file) : "";
+	}
+
+	/**
+	 * The file behind `relativePath` in the image folder, or null when the folder is not in
+	 * the vault or the file does not exist.
+	 */
+	private getVaultImageFile(relativePath: string): TFile | null {
 		const folderPath = this.settings.imageFolderPath.trim();
 		if (!folderPath) {
-			return "";
+			return null;
 		}
 		const resolvedFolder = resolveVaultFolderPath(this.app, folderPath);
 		if (resolvedFolder.errorMessage) {
-			return "";
+			return null;
 		}
 		const normalizedFolder = normalizePath(resolvedFolder.folderPath);
 		const normalizedRelative = relativePath.trim().replace(/^\/+/, "");
 		const fullPath = normalizePath(`${normalizedFolder}/${normalizedRelative}`);
 		const file = this.app.vault.getAbstractFileByPath(fullPath);
-		if (!(file instanceof TFile)) {
-			return "";
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * Images come from the vault folder itself, not a server that may hold other files.
+	 */
+	private isVaultImageSource(): boolean {
+		const folderPath = this.settings.imageFolderPath.trim();
+		if (!folderPath || this.prefersRemoteImageUrls()) {
+			return false;
 		}
-		return this.app.vault.getResourcePath(file);
+		return resolveVaultFolderPath(this.app, folderPath).errorMessage.length === 0;
 	}
 
 	private isLinkedToVaultFolder(): boolean {
@@ -156,16 +811,309 @@ export default class DivergencesPlusPlugin extends Plugin {
 		return resolvedFolder.errorMessage.length === 0;
 	}
 
-	async setBackgroundByRelativePath(relativePath: string): Promise<void> {
+	async setBackgroundByRelativePath(
+		relativePath: string,
+		slot: ThemeSlot = this.getActiveThemeSlot()
+	): Promise<void> {
+		// Keep the outgoing image too, so "previous" works even for selections made before history existed.
+		const history = pushHistoryEntry(
+			this.settings.backgroundHistory,
+			this.getSelectedImagePath(slot)
+		);
+		this.settings.backgroundHistory = pushHistoryEntry(history, relativePath);
+		this.setSelectedImagePath(slot, relativePath);
+		// An explicit choice ends any picker preview, so the apply below derives colors again.
+		this.isPreviewingBackground = false;
+		await this.saveSettings();
+		this.applySelectedBackground();
+	}
+
+	/**
+	 * Show `relativePath` on `slot` without saving it. `endBackgroundPreview` restores the
+	 * saved selection.
+	 */
+	previewBackground(relativePath: string, slot: ThemeSlot): void {
+		const url = this.getImageUrlForPath(relativePath);
+		if (!url) {
+			return;
+		}
+		this.isPreviewingBackground = true;
+		this.applyBackgroundUrl(url, slot, relativePath);
+	}
+
+	endBackgroundPreview(): void {
+		if (!this.isPreviewingBackground) {
+			return;
+		}
+		this.isPreviewingBackground = false;
+		this.applySelectedBackground();
+	}
+
+	getBackgroundHistory(): string[] {
+		return [...this.settings.backgroundHistory];
+	}
+
+	/**
+	 * Move through the history without reordering it. The position is the index of the
+	 * current selection, so no cursor has to be persisted.
+	 */
+	async stepBackgroundHistory(direction: "previous" | "next"): Promise<boolean> {
+		this.pruneBackgroundHistory();
+		const slot = this.getActiveThemeSlot();
+		const history = this.settings.backgroundHistory;
+		const current = history.indexOf(normalizePlaylistPath(this.getSelectedImagePath(slot)));
+		let index = current + (direction === "previous" ? 1 : -1);
+		if (current === -1) {
+			// The selection left the history (cleared or pruned); "previous" restores the newest entry.
+			index = direction === "previous" ? 0 : -1;
+		}
+		const path = history[index];
+		if (!path) {
+			return false;
+		}
+		this.setSelectedImagePath(slot, path);
+		await this.saveSettings();
+		this.applySelectedBackground();
+		return true;
+	}
+
+	/**
+	 * Drop entries that no longer resolve. `availablePaths` narrows it further to a freshly
+	 * loaded picker list, which also catches remote files that were removed.
+	 */
+	pruneBackgroundHistory(availablePaths?: string[]): void {
+		const available = availablePaths
+			? new Set(availablePaths.map((path) => normalizePlaylistPath(path)))
+			: null;
+		const pruned = pruneHistory(
+			this.settings.backgroundHistory,
+			(path) => (!available || available.has(path)) && this.isBackgroundPathAvailable(path)
+		);
+		if (pruned.length === this.settings.backgroundHistory.length) {
+			return;
+		}
+		this.settings.backgroundHistory = pruned;
+		void this.saveSettings();
+	}
+
+	isFavoriteImage(relativePath: string): boolean {
+		return this.settings.favoriteImages.includes(normalizePlaylistPath(relativePath));
+	}
+
+	/**
+	 * Toggle `relativePath` in favorites or in the collection with `collectionId`.
+	 * Returns whether the image is now included.
+	 */
+	async toggleImageInCollection(collectionId: string, relativePath: string): Promise<boolean> {
+		const path = normalizePlaylistPath(relativePath);
+		if (collectionId === COLLECTION_FILTER_FAVORITES) {
+			this.settings.favoriteImages = toggleCollectionPath(this.settings.favoriteImages, path);
+			await this.saveSettings();
+			return this.settings.favoriteImages.includes(path);
+		}
+		const collection = findCollection(this.settings.collections, collectionId);
+		if (!collection) {
+			return false;
+		}
+		collection.paths = toggleCollectionPath(collection.paths, path);
+		await this.saveSettings();
+		return collection.paths.includes(path);
+	}
+
+	/**
+	 * Keep every saved reference pointing at files moved inside the image folder: selections,
+	 * effects, history, favorites, collections, playlists, schedule targets and profiles.
+	 */
+	private renameImageReferences(oldVaultPath: string, newVaultPath: string): void {
+		const oldPath = this.getImageFolderRelativePath(oldVaultPath);
+		const newPath = this.getImageFolderRelativePath(newVaultPath);
+		if (!oldPath || !newPath) {
+			return;
+		}
+		const before = JSON.stringify(this.settings);
+		const renameSelection = (target: {
+			selectedImagePath: string;
+			selectedImagePathLight: string;
+			imageEffects: Record<string, BackgroundEffects>;
+		}): void => {
+			target.selectedImagePath = renamePath(target.selectedImagePath, oldPath, newPath);
+			target.selectedImagePathLight = renamePath(target.selectedImagePathLight, oldPath, newPath);
+			target.imageEffects = renamePathKeys(target.imageEffects, oldPath, newPath);
+		};
+		renameSelection(this.settings);
+		for (const profile of this.settings.profiles) {
+			renameSelection(profile);
+		}
+		this.settings.backgroundHistory = renameCollectionPaths(
+			this.settings.backgroundHistory,
+			oldPath,
+			newPath
+		);
+		this.settings.favoriteImages = renameCollectionPaths(this.settings.favoriteImages, oldPath, newPath);
+		for (const collection of [...this.settings.collections, ...this.settings.playlists]) {
+			collection.paths = renameCollectionPaths(collection.paths, oldPath, newPath);
+		}
+		for (const entry of this.settings.schedule) {
+			if (entry.targetType === "image") {
+				entry.target = renamePath(entry.target, oldPath, newPath);
+			}
+		}
+		if (JSON.stringify(this.settings) === before) {
+			return;
+		}
+		void this.saveSettings();
+		// The applied image may be the one that moved; its old path no longer resolves.
+		this.applySelectedBackground();
+	}
+
+	private getImageFolderRelativePath(vaultPath: string): string {
+		const folderPath = this.settings.imageFolderPath.trim();
+		if (!folderPath) {
+			return "";
+		}
+		const resolvedFolder = resolveVaultFolderPath(this.app, folderPath);
+		if (resolvedFolder.errorMessage) {
+			return "";
+		}
+		const folder = normalizePath(resolvedFolder.folderPath);
+		const path = normalizePath(vaultPath);
+		if (folder === "/") {
+			return path;
+		}
+		return path.startsWith(`${folder}/`) ? path.slice(folder.length + 1) : "";
+	}
+
+	/**
+	 * Whether `path` can still be shown. A server URL can be built for any path, so a vault
+	 * source also needs the file to exist.
+	 */
+	private isBackgroundPathAvailable(path: string): boolean {
+		if (!this.getImageUrlForPath(path)) {
+			return false;
+		}
+		if (isGradientReference(path)) {
+			return true;
+		}
+		if (this.isVaultImageSource() && !this.getVaultImageFile(path)) {
+			return false;
+		}
+		const whitelist = this.getLinkedWhitelistInfo();
+		if (!whitelist.enabled) {
+			return true;
+		}
+		return whitelist.files.some((file) => normalizePlaylistPath(file) === path);
+	}
+
+	async clearBackgroundSelection(slot: ThemeSlot = this.getActiveThemeSlot()): Promise<void> {
+		this.setSelectedImagePath(slot, "");
+		await this.saveSettings();
+		// Reapply both slots: the other one may share the variable and still have an image.
+		this.applySelectedBackground();
+	}
+
+	private setSelectedImagePath(slot: ThemeSlot, relativePath: string): void {
+		if (slot === "light") {
+			this.settings.selectedImagePathLight = relativePath;
+			return;
+		}
 		this.settings.selectedImagePath = relativePath;
+	}
+
+	/**
+	 * Copy a saved profile into the live settings and apply colors and background in one pass.
+	 */
+	async applyAppearanceProfile(id: string): Promise<boolean> {
+		const profile = this.settings.profiles.find((candidate) => candidate.id === id);
+		if (!profile) {
+			return false;
+		}
+		const previousNames = THEME_SLOTS.map((slot) => this.getCssVariableName(slot));
+		applyAppearanceProfile(this.settings, profile);
+		THEME_SLOTS.forEach((slot, index) => {
+			const previousName = previousNames[index];
+			if (previousName && previousName !== this.getCssVariableName(slot)) {
+				// The old variable would otherwise keep showing the previous image.
+				document.body.style.removeProperty(previousName);
+				for (const suffix of EFFECT_VARIABLE_SUFFIXES) {
+					document.body.style.removeProperty(`${previousName}-${suffix}`);
+				}
+			}
+		});
+		await this.saveSettings();
+		this.applyThemeColors();
+		this.applySelectedBackground();
+		return true;
+	}
+
+	async saveAppearanceProfile(name: string): Promise<AppearanceProfile> {
+		const trimmed = name.trim() || `Profile ${this.settings.profiles.length + 1}`;
+		const profile = captureAppearanceProfile(
+			this.settings,
+			createProfileId(trimmed, this.settings.profiles),
+			trimmed
+		);
+		this.settings.profiles.push(profile);
+		await this.saveSettings();
+		this.syncProfileCommands();
+		return profile;
+	}
+
+	async updateAppearanceProfile(id: string): Promise<void> {
+		const index = this.settings.profiles.findIndex((profile) => profile.id === id);
+		const existing = this.settings.profiles[index];
+		if (!existing) {
+			return;
+		}
+		this.settings.profiles[index] = captureAppearanceProfile(this.settings, id, existing.name);
+		await this.saveSettings();
+	}
+
+	/**
+	 * Remove a gradient and clear any slot that still points at it.
+	 */
+	async deleteBackgroundGradient(id: string): Promise<void> {
+		const gradient = this.settings.gradients.find((entry) => entry.id === id);
+		if (!gradient) {
+			return;
+		}
+		const reference = getGradientReference(gradient);
+		this.settings.gradients = this.settings.gradients.filter((entry) => entry !== gradient);
+		for (const slot of THEME_SLOTS) {
+			if (this.getSelectedImagePath(slot) === reference) {
+				this.setSelectedImagePath(slot, "");
+			}
+		}
 		await this.saveSettings();
 		this.applySelectedBackground();
 	}
 
-	async clearBackgroundSelection(): Promise<void> {
-		this.settings.selectedImagePath = "";
+	async deleteAppearanceProfile(id: string): Promise<void> {
+		this.settings.profiles = this.settings.profiles.filter((profile) => profile.id !== id);
 		await this.saveSettings();
-		this.clearCssBackground();
+		this.syncProfileCommands();
+	}
+
+	/**
+	 * Register one command per profile. Call after adding, renaming or deleting profiles.
+	 */
+	syncProfileCommands(): void {
+		for (const commandId of this.profileCommandIds) {
+			this.removeCommand(commandId);
+		}
+		this.profileCommandIds = this.settings.profiles.map((profile) => {
+			const commandId = `apply-profile-${profile.id}`;
+			this.addCommand({
+				id: commandId,
+				name: `Apply appearance profile: ${profile.name || profile.id}`,
+				callback: async () => {
+					const applied = await this.applyAppearanceProfile(profile.id);
+					if (!applied) {
+						new Notice("Appearance profile not found.");
+					}
+				},
+			});
+			return commandId;
+		});
 	}
 
 	async loadSettings(): Promise<void> {
@@ -174,6 +1122,43 @@ export default class DivergencesPlusPlugin extends Plugin {
 			DEFAULT_SETTINGS,
 			(await this.loadData()) as Partial<MyPluginSettings>
 		);
+		// Copy nested values so edits never mutate DEFAULT_SETTINGS.
+		this.settings.playlists = (this.settings.playlists ?? []).map((playlist) => ({
+			name: playlist.name,
+			paths: [...playlist.paths],
+		}));
+		this.settings.schedule = (this.settings.schedule ?? []).map((entry, index) => ({
+			...entry,
+			// Rows saved before ids existed get one from their position once.
+			id: entry.id || `schedule-${index}`,
+			days: [...entry.days],
+		}));
+		this.settings.backgroundRules = (this.settings.backgroundRules ?? []).map((rule) => ({
+			...rule,
+		}));
+		this.settings.cssVariableTargets = (this.settings.cssVariableTargets ?? []).map(
+			(target) => ({...target})
+		);
+		this.settings.defaultEffects = normalizeBackgroundEffects(this.settings.defaultEffects);
+		this.settings.imageEffects = {...(this.settings.imageEffects ?? {})};
+		this.settings.themeVariables = (this.settings.themeVariables ?? []).map((variable) => ({
+			...variable,
+		}));
+		this.settings.gradients = (this.settings.gradients ?? []).map((gradient) => ({
+			...gradient,
+			stops: gradient.stops.map((stop) => ({...stop})),
+		}));
+		this.settings.backgroundHistory = [...(this.settings.backgroundHistory ?? [])];
+		this.settings.favoriteImages = [...(this.settings.favoriteImages ?? [])];
+		this.settings.collections = (this.settings.collections ?? []).map((collection) => ({
+			...collection,
+			paths: [...collection.paths],
+		}));
+		this.settings.recentColors = [...(this.settings.recentColors ?? [])];
+		this.settings.favoriteColors = [...(this.settings.favoriteColors ?? [])];
+		this.settings.profiles = (this.settings.profiles ?? []).map((profile) =>
+			cloneAppearanceProfile(profile)
+		);
 	}
 
 	async saveSettings(): Promise<void> {
@@ -275,6 +1260,154 @@ export default class DivergencesPlusPlugin extends Plugin {
 		}
 	}
 
+	restartRotation(): void {
+		this.stopRotationTimer();
+		if (!this.settings.rotationEnabled || this.rotationPaused) {
+			return;
+		}
+		const minutes = Math.max(this.settings.rotationIntervalMinutes, 1);
+		this.rotationTimer = window.setInterval(() => {
+			void this.advanceRotation();
+		}, minutes * 60 * 1000);
+	}
+
+	pauseRotation(): void {
+		this.rotationPaused = true;
+		this.stopRotationTimer();
+		new Notice("Background rotation paused.");
+	}
+
+	resumeRotation(): void {
+		this.rotationPaused = false;
+		this.restartRotation();
+		new Notice("Background rotation resumed.");
+	}
+
+	async advanceRotation(): Promise<boolean> {
+		if (this.rotationBusy) {
+			return false;
+		}
+		this.rotationBusy = true;
+		try {
+			// Reuse the picker resolution so whitelist and linked-server rules still apply.
+			const result = await this.ensureBackgroundPicker().getImageItems();
+			if (result.errorMessage) {
+				return false;
+			}
+			const slot = this.getActiveThemeSlot();
+			const currentPath = this.getSelectedImagePath(slot);
+			const order = this.getRotationOrder(
+				result.items.map((item) => item.relativePath),
+				currentPath
+			);
+			const nextPath = pickNextRotationPath(order, currentPath);
+			if (!nextPath || nextPath === normalizePlaylistPath(currentPath)) {
+				return false;
+			}
+			await this.setBackgroundByRelativePath(nextPath, slot);
+			return true;
+		} finally {
+			this.rotationBusy = false;
+		}
+	}
+
+	private getRotationOrder(availablePaths: string[], currentPath: string): string[] {
+		// An active schedule playlist temporarily replaces the configured source.
+		const source = this.schedulePlaylistName ? "playlist" : this.settings.rotationSource;
+		if (source !== "shuffle") {
+			const playlistName = this.schedulePlaylistName || this.settings.rotationPlaylistName;
+			const playlist = findPlaylist(this.settings.playlists, playlistName);
+			return buildRotationOrder(source, availablePaths, playlist);
+		}
+		// Keep one shuffled pass until every image has been shown, then reshuffle.
+		const current = normalizePlaylistPath(currentPath);
+		const lastPath = this.rotationShuffleOrder[this.rotationShuffleOrder.length - 1];
+		if (!isSameRotationSet(this.rotationShuffleOrder, availablePaths) || lastPath === current) {
+			const shuffled = buildRotationOrder("shuffle", availablePaths, null);
+			const currentIndex = shuffled.indexOf(current);
+			if (currentIndex >= 0) {
+				// Park the current image last so the new pass never repeats it first.
+				shuffled.splice(currentIndex, 1);
+				shuffled.push(current);
+			}
+			this.rotationShuffleOrder = shuffled;
+		}
+		return this.rotationShuffleOrder;
+	}
+
+	async evaluateSchedule(): Promise<void> {
+		if (!this.settings.scheduleEnabled) {
+			this.lastScheduleKey = null;
+			this.schedulePlaylistName = "";
+			return;
+		}
+		const match = findActiveScheduleEntry(this.settings.schedule, new Date(), (entry) =>
+			entry.targetType === "image"
+				? this.isBackgroundPathAvailable(normalizePlaylistPath(entry.target))
+				: Boolean(findPlaylist(this.settings.playlists, entry.target))
+		);
+		const key = match?.key ?? "";
+		// Only act when a boundary was crossed so manual picks survive until the next one.
+		if (key === this.lastScheduleKey) {
+			return;
+		}
+		this.lastScheduleKey = key;
+		this.schedulePlaylistName =
+			match?.entry.targetType === "playlist" ? match.entry.target.trim() : "";
+		if (!match) {
+			return;
+		}
+		await this.applyScheduleEntry(match.entry);
+	}
+
+	private async applyScheduleEntry(entry: ScheduleEntry): Promise<void> {
+		const slot = this.getActiveThemeSlot();
+		if (entry.targetType === "image") {
+			await this.setBackgroundByRelativePath(normalizePlaylistPath(entry.target), slot);
+			return;
+		}
+		const result = await this.ensureBackgroundPicker().getImageItems();
+		if (result.errorMessage) {
+			return;
+		}
+		const playlist = findPlaylist(this.settings.playlists, entry.target);
+		const order = buildRotationOrder(
+			"playlist",
+			result.items.map((item) => item.relativePath),
+			playlist
+		);
+		const nextPath = pickNextRotationPath(order, this.getSelectedImagePath(slot));
+		if (nextPath) {
+			await this.setBackgroundByRelativePath(nextPath, slot);
+		}
+	}
+
+	private startScheduleWatcher(): void {
+		// A short tick also catches up after sleep, since the interval resumes on wake.
+		this.registerInterval(
+			window.setInterval(() => {
+				void this.evaluateSchedule();
+			}, 30 * 1000)
+		);
+		this.registerDomEvent(document, "visibilitychange", () => {
+			if (document.visibilityState === "visible") {
+				void this.evaluateSchedule();
+			}
+		});
+		this.registerDomEvent(window, "focus", () => {
+			void this.evaluateSchedule();
+		});
+		void this.evaluateSchedule();
+	}
+
+	private stopRotationTimer(): void {
+		if (this.rotationTimer === null) {
+			return;
+		}
+		window.clearInterval(this.rotationTimer);
+		this.rotationTimer = null;
+	}
+
 	private ensureBackgroundPicker(): BackgroundPickerOverlay {
 		if (!this.backgroundPicker) {
 			this.backgroundPicker = new BackgroundPickerOverlay(this.app, this);
@@ -2,16 +2,75 @@
  * Settings model and settings tab for the background picker.
  * Why: keeps user configuration in one place with simple UI controls.
  * Related: src/main.ts, src/ui/background-picker-overlay.ts, src/utils/image-utils.ts */
-import {App, PluginSettingTab, Setting} from "obsidian";
+import {App, debounce, Notice, PluginSettingTab, Setting, setIcon} from "obsidian";
 import type DivergencesPlusPlugin from "./main";
+import {EyedropperModal} from "./ui/eyedropper-modal";
 import {
+	buildTonalScale,
+	COLOR_OUTPUT_FORMATS,
+	ColorOutputFormat,
+	ColorPalette,
+	ContrastContext,
+	detectColorFormat,
+	fixContrast,
+	formatColor,
 	formatHexColor,
 	formatRgbaColor,
+	getContrastLevel,
+	getSurfaceContrast,
 	hsvToRgb,
 	parseRgbaColor,
 	RgbaColor,
 	rgbToHsv,
+	suggestDarkThemeColors,
+	TONAL_SCALE_STEPS,
+	TonalStep,
 } from "./utils/color-utils";
+import {createCollection, ImageCollection} from "./utils/collection-utils";
+import {createCssVariableTarget, CssVariableTarget} from "./utils/css-target-utils";
+import {
+	BackgroundEffects,
+	BackgroundRepeatMode,
+	BackgroundSizeMode,
+	DEFAULT_BACKGROUND_EFFECTS,
+} from "./utils/effect-utils";
+import type {PickerFolderView} from "./utils/folder-utils";
+import {
+	BackgroundGradient,
+	buildGradientCss,
+	createGradient,
+	GRADIENT_TYPES,
+	GradientStop,
+	GradientType,
+	getGradientReference,
+} from "./utils/gradient-utils";
+import type {PickerTileSize} from "./utils/grid-utils";
+import {AppearanceProfile} from "./utils/profile-utils";
+import {
+	BackgroundPlaylist,
+	parsePlaylistPaths,
+	ROTATION_SOURCES,
+	RotationSource,
+} from "./utils/rotation-utils";
+import {BackgroundRule, BackgroundRuleType, createBackgroundRule} from "./utils/rule-utils";
+import {
+	createScheduleEntry,
+	parseClockTime,
+	ScheduleEntry,
+	ScheduleTargetType,
+	WEEKDAY_LABELS,
+} from "./utils/schedule-utils";
+import type {BackgroundSortMode} from "./utils/sort-utils";
+import {
+	createThemeColorVariable,
+	DEFAULT_THEME_VARIABLE_COLOR,
+	ThemeColorVariable,
+	ThemeVariableScope,
+} from "./utils/theme-variable-utils";
+
+export type ThemeSlot = "dark" | "light";
+
+export const THEME_SLOTS: ThemeSlot[] = ["dark", "light"];
 
 export interface MyPluginSettings {
 	serverBaseUrl: string;
@@ -19,10 +78,55 @@ export interface MyPluginSettings {
 	useRemoteIndex: boolean;
 	authToken: string;
 	cssVariableName: string;
+	cssVariableNameLight: string;
+	// Extra variables that receive the same selection, e.g. for other themes or snippets.
+	cssVariableTargets: CssVariableTarget[];
 	selectedImagePath: string;
+	selectedImagePathLight: string;
 	linkedServerEntryId: string;
 	themeDarkBase00: string;
 	themeDarkBase10: string;
+	themeLightBase00: string;
+	themeLightBase10: string;
+	// Derive themeDark* from the dark background unless the colors are locked.
+	autoThemeColors: boolean;
+	autoThemeColorAlpha: number;
+	themeColorsLocked: boolean;
+	// Extra color variables written next to --my-color-base-XX.
+	themeVariables: ThemeColorVariable[];
+	// Newest first, stored as rgba() strings.
+	recentColors: string[];
+	favoriteColors: string[];
+	// Newest first; selections made through the picker, rotation and schedule.
+	backgroundHistory: string[];
+	// Folder-relative paths so stars work the same for vault and remote items.
+	favoriteImages: string[];
+	collections: ImageCollection[];
+	// "" shows everything, "favorites" or a collection id narrows the picker grid.
+	pickerCollectionFilter: string;
+	pickerSortMode: BackgroundSortMode;
+	// "browse" shows one folder at a time; "sections" adds a heading per folder.
+	pickerFolderView: PickerFolderView;
+	// Target tile width for the scrolling grid; "fit" shrinks tiles to show everything at once.
+	pickerTileSize: PickerTileSize;
+	// Selectable like images through `gradient:<id>` references.
+	gradients: BackgroundGradient[];
+	rotationEnabled: boolean;
+	rotationIntervalMinutes: number;
+	rotationSource: RotationSource;
+	rotationPlaylistName: string;
+	playlists: BackgroundPlaylist[];
+	scheduleEnabled: boolean;
+	schedule: ScheduleEntry[];
+	noteBackgroundsEnabled: boolean;
+	noteBackgroundKey: string;
+	backgroundRules: BackgroundRule[];
+	defaultEffects: BackgroundEffects;
+	// Per-image overrides keyed by folder-relative path.
+	imageEffects: Record<string, BackgroundEffects>;
+	transitionDurationMs: number;
+	renderBackgroundLayer: boolean;
+	profiles: AppearanceProfile[];
 }
 
 export const DEFAULT_SETTINGS: MyPluginSettings = {
@@ -31,10 +135,44 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
 	useRemoteIndex: false,
 	authToken: "",
 	cssVariableName: "--anp-background-image-dark",
+	cssVariableNameLight: "--anp-background-image-light",
+	cssVariableTargets: [],
 	selectedImagePath: "",
+	selectedImagePathLight: "",
 	linkedServerEntryId: "",
 	themeDarkBase00: "rgba(17, 15, 32, 0.79)",
 	themeDarkBase10: "rgba(17, 15, 32, 0.79)",
+	themeLightBase00: "rgba(250, 248, 255, 0.79)",
+	themeLightBase10: "rgba(250, 248, 255, 0.79)",
+	autoThemeColors: false,
+	autoThemeColorAlpha: 0.79,
+	themeColorsLocked: false,
+	themeVariables: [],
+	recentColors: [],
+	favoriteColors: [],
+	backgroundHistory: [],
+	favoriteImages: [],
+	collections: [],
+	pickerCollectionFilter: "",
+	pickerSortMode: "name",
+	pickerFolderView: "flat",
+	pickerTileSize: "medium",
+	gradients: [],
+	rotationEnabled: false,
+	rotationIntervalMinutes: 30,
+	rotationSource: "folder",
+	rotationPlaylistName: "",
+	playlists: [],
+	scheduleEnabled: false,
+	schedule: [],
+	noteBackgroundsEnabled: true,
+	noteBackgroundKey: "background",
+	backgroundRules: [],
+	defaultEffects: {...DEFAULT_BACKGROUND_EFFECTS},
+	imageEffects: {},
+	transitionDurationMs: 600,
+	renderBackgroundLayer: false,
+	profiles: [],
 };
 
 interface RgbaSettingOptions {
@@ -43,10 +181,40 @@ interface RgbaSettingOptions {
 	value: string;
 	fallback: string;
 	onChange: (value: string) => Promise<void>;
+	// When set, shows a WCAG badge for text over this color on the background.
+	contrast?: Promise<ContrastContext>;
+	// When set, shows an eyedropper button; resolves null when the user cancels.
+	pickColor?: () => Promise<RgbaColor | null>;
+	// When set, shows recent/favorite swatches and a tonal scale for this scope.
+	swatches?: {store: ColorSwatchStore; scope: ThemeVariableScope};
 }
 
+interface ColorSwatchStore {
+	getRecent(): string[];
+	getFavorites(): string[];
+	addRecent(color: string): void;
+	toggleFavorite(color: string): void;
+	writeScale(scope: ThemeVariableScope, scale: TonalStep[]): Promise<void>;
+}
+
+const MAX_RECENT_COLORS = 12;
+
+const GRADIENT_TYPE_LABELS: Record<GradientType, string> = {
+	linear: "Linear",
+	radial: "Radial",
+	conic: "Conic",
+	solid: "Solid color",
+};
+
+const COLOR_FORMAT_LABELS: Record<ColorOutputFormat, string> = {
+	rgb: "RGBA",
+	hex: "Hex",
+	hsl: "HSL",
+	oklch: "OKLCH",
+};
+
 // Reusable RGBA picker for the settings UI.
-function addRgbaSetting(containerEl: HTMLElement, options: RgbaSettingOptions): void {
+function addRgbaSetting(containerEl: HTMLElement, options: RgbaSettingOptions): Setting {
 	const setting = new Setting(containerEl)
 		.setName(options.name)
 		.setDesc(options.description);
@@ -73,14 +241,69 @@ function addRgbaSetting(containerEl: HTMLElement, options: RgbaSettingOptions):
 	const bField = createChannelField(fields, "B", 0, 255, 1);
 	const aField = createChannelField(fields, "A", 0, 1, 0.01);
 
+	const output = control.createDiv({cls: "anp-color-output"});
+	const formatSelect = output.createEl("select", {cls: "dropdown"});
+	for (const format of COLOR_OUTPUT_FORMATS) {
+		formatSelect.createEl("option", {value: format, text: COLOR_FORMAT_LABELS[format]});
+	}
+	const valueInput = output.createEl("input", {
+		type: "text",
+		cls: "anp-color-number anp-color-text",
+		attr: {spellcheck: "false", "aria-label": "Color value"},
+	});
+
+	const swatchUi = options.swatches
+		? createColorSwatches(control, options.swatches, (color) => updateFromRgba(color, true))
+		: null;
+
 	const actions = control.createDiv({cls: "anp-color-actions"});
 	const preview = actions.createDiv({cls: "anp-color-preview"});
 	const resetButton = actions.createEl("button", {cls: "anp-color-reset", text: "Reset"});
 	resetButton.type = "button";
+	if (options.pickColor) {
+		const pickColor = options.pickColor;
+		const eyedropperButton = actions.createEl("button", {
+			cls: "anp-color-reset anp-color-eyedropper",
+			attr: {"aria-label": "Pick from background"},
+		});
+		eyedropperButton.type = "button";
+		setIcon(eyedropperButton, "pipette");
+		eyedropperButton.addEventListener("click", () => {
+			void pickColor().then((picked) => {
+				if (picked) {
+					// Pixels are opaque; keep the transparency the user already chose.
+					updateFromRgba({...picked, a: current.a}, true);
+				}
+			});
+		});
+	}
+	const badge = actions.createSpan({cls: "anp-contrast-badge anp-is-hidden"});
+	const fixButton = actions.createEl("button", {
+		cls: "anp-color-reset anp-is-hidden",
+		text: "Fix contrast",
+	});
+	fixButton.type = "button";
 
 	let current = resolveRgbaValue(options.value, options.fallback);
 	let hsv = rgbToHsv(current);
+	// Saved values keep the syntax they were written in until the user picks another.
+	let format: ColorOutputFormat = detectColorFormat(options.value);
+	formatSelect.value = format;
 	let svDragging = false;
+	let contrastContext: ContrastContext | null = null;
+
+	const syncContrast = (): void => {
+		if (!contrastContext) {
+			return;
+		}
+		const ratio = getSurfaceContrast(current, contrastContext);
+		const level = getContrastLevel(ratio);
+		badge.removeClass("anp-is-hidden", "is-aaa", "is-aa", "is-fail");
+		badge.addClass(`is-${level.toLowerCase()}`);
+		badge.setText(level === "fail" ? "Low" : level);
+		badge.setAttr("title", `Text contrast ${ratio.toFixed(2)}:1 over the background`);
+		fixButton.toggleClass("anp-is-hidden", level !== "fail");
+	};
 
 	const syncUi = (): void => {
 		// Keep every control in sync so typing and dragging feel consistent.
@@ -101,13 +324,20 @@ function addRgbaSetting(containerEl: HTMLElement, options: RgbaSettingOptions):
 		gField.input.value = String(current.g);
 		bField.input.value = String(current.b);
 		aField.input.value = formatAlphaInput(current.a);
+		if (document.activeElement !== valueInput) {
+			valueInput.value = formatColor(current, format);
+		}
 
 		preview.style.background = formatted;
 		preview.dataset.color = previewHex;
+		syncContrast();
+		swatchUi?.sync(current);
 	};
 
 	const persist = (): void => {
-		void options.onChange(formatRgbaColor(current));
+		void options.onChange(formatColor(current, format));
+		options.swatches?.store.addRecent(formatRgbaColor(current));
+		swatchUi?.renderSaved();
 	};
 
 	const updateFromRgba = (next: RgbaColor, shouldPersist: boolean): void => {
@@ -226,11 +456,138 @@ function addRgbaSetting(containerEl: HTMLElement, options: RgbaSettingOptions):
 	bField.input.addEventListener("change", () => updateFromChannels(true));
 	aField.input.addEventListener("change", () => updateFromChannels(true));
 
+	formatSelect.addEventListener("change", () => {
+		format = formatSelect.value as ColorOutputFormat;
+		syncUi();
+		persist();
+	});
+	valueInput.addEventListener("change", () => {
+		// Any CSS color syntax can be pasted; invalid input snaps back to the current color.
+		const parsed = parseRgbaColor(valueInput.value);
+		valueInput.blur();
+		if (!parsed) {
+			syncUi();
+			return;
+		}
+		updateFromRgba(parsed, true);
+	});
+
 	resetButton.addEventListener("click", () => {
 		// Always allow returning to the default color.
 		const fallback = resolveRgbaValue(options.fallback, options.fallback);
 		updateFromRgba(fallback, true);
 	});
+
+	fixButton.addEventListener("click", () => {
+		if (contrastContext) {
+			updateFromRgba(fixContrast(current, contrastContext), true);
+		}
+	});
+
+	void options.contrast?.then((context) => {
+		contrastContext = context;
+		syncContrast();
+	});
+	return setting;
+}
+
+function createColorSwatches(
+	parent: HTMLElement,
+	swatches: NonNullable<RgbaSettingOptions["swatches"]>,
+	onPick: (color: RgbaColor) => void
+): {sync: (current: RgbaColor) => void; renderSaved: () => void} {
+	const {store, scope} = swatches;
+	const container = parent.createDiv({cls: "anp-color-swatches"});
+	const savedRow = container.createDiv({cls: "anp-color-swatch-group"});
+	const scaleRow = container.createDiv({cls: "anp-color-swatch-group"});
+	let current: RgbaColor = {r: 0, g: 0, b: 0, a: 1};
+	let scale: TonalStep[] = [];
+
+	const createSwatch = (row: HTMLElement, color: string, label: string): HTMLButtonElement => {
+		const swatch = row.createEl("button", {
+			cls: "anp-color-swatch",
+			attr: {"aria-label": label, title: label},
+		});
+		swatch.type = "button";
+		swatch.style.setProperty("--anp-swatch-color", color);
+		return swatch;
+	};
+
+	const pinButton = savedRow.createEl("button", {
+		cls: "anp-color-swatch-action",
+		attr: {"aria-label": "Pin current color"},
+	});
+	pinButton.type = "button";
+	setIcon(pinButton, "star");
+	const savedList = savedRow.createDiv({cls: "anp-color-swatch-list"});
+
+	const renderSaved = (): void => {
+		savedList.empty();
+		const favorites = store.getFavorites();
+		for (const color of favorites) {
+			const swatch = createSwatch(savedList, color, `Favorite ${color}`);
+			swatch.addClass("is-favorite");
+			swatch.addEventListener("click", () => {
+				const parsed = parseRgbaColor(color);
+				if (parsed) {
+					onPick(parsed);
+				}
+			});
+		}
+		for (const color of store.getRecent()) {
+			if (favorites.includes(color)) {
+				continue;
+			}
+			createSwatch(savedList, color, `Recent ${color}`).addEventListener("click", () => {
+				const parsed = parseRgbaColor(color);
+				if (parsed) {
+					onPick(parsed);
+				}
+			});
+		}
+		pinButton.toggleClass("is-active", favorites.includes(formatRgbaColor(current)));
+	};
+
+	pinButton.addEventListener("click", () => {
+		store.toggleFavorite(formatRgbaColor(current));
+		renderSaved();
+	});
+
+	const scaleSwatches = TONAL_SCALE_STEPS.map((step) => {
+		const label = `Base ${String(step).padStart(2, "0")}`;
+		const swatch = createSwatch(scaleRow, "transparent", label);
+		swatch.addEventListener("click", () => {
+			const tone = scale.find((entry) => entry.step === step);
+			if (tone) {
+				onPick(tone.color);
+			}
+		});
+		return swatch;
+	});
+	const writeButton = scaleRow.createEl("button", {
+		cls: "anp-color-reset",
+		text: "Write scale",
+		attr: {title: "Write base 00 to base 100 as theme variables"},
+	});
+	writeButton.type = "button";
+	writeButton.addEventListener("click", () => {
+		void store.writeScale(scope, scale);
+	});
+
+	const sync = (next: RgbaColor): void => {
+		current = next;
+		// Dark themes number base colors from dark to light, light themes the other way.
+		const darkFirst =
+			scope === "dark" || (scope === "body" && !document.body.hasClass("theme-light"));
+		scale = buildTonalScale(current, darkFirst);
+		scale.forEach((tone, index) => {
+			scaleSwatches[index]?.style.setProperty("--anp-swatch-color", formatRgbaColor(tone.color));
+		});
+		pinButton.toggleClass("is-active", store.getFavorites().includes(formatRgbaColor(current)));
+	};
+
+	renderSaved();
+	return {sync, renderSaved};
 }
 
 function resolveRgbaValue(value: string, fallback: string): RgbaColor {
@@ -270,8 +627,59 @@ function formatAlphaInput(value: number): string {
 	return String(Math.round(clampChannel(value, 0, 1) * 100) / 100);
 }
 
+function addColorSwatch(parent: HTMLElement, color: string, cls: string): void {
+	const swatch = parent.createSpan({cls, attr: {title: color}});
+	swatch.style.setProperty("--anp-swatch-color", color);
+}
+
 export class MyPluginSettingTab extends PluginSettingTab {
 	plugin: DivergencesPlusPlugin;
+	// Which image the effects sliders edit; empty means the shared defaults.
+	private effectsTarget = "";
+	private readonly saveSettingsDebounced = debounce(
+		() => void this.plugin.saveSettings(),
+		400,
+		true
+	);
+	private readonly swatchStore: ColorSwatchStore = {
+		getRecent: () => this.plugin.settings.recentColors,
+		getFavorites: () => this.plugin.settings.favoriteColors,
+		addRecent: (color) => {
+			const recent = this.plugin.settings.recentColors.filter((entry) => entry !== color);
+			recent.unshift(color);
+			this.plugin.settings.recentColors = recent.slice(0, MAX_RECENT_COLORS);
+			this.saveSettingsDebounced();
+		},
+		toggleFavorite: (color) => {
+			const favorites = this.plugin.settings.favoriteColors;
+			this.plugin.settings.favoriteColors = favorites.includes(color)
+				? favorites.filter((entry) => entry !== color)
+				: [...favorites, color];
+			this.saveSettingsDebounced();
+		},
+		writeScale: async (scope, scale) => {
+			await this.plugin.writeTonalScale(scope, scale);
+			this.display();
+		},
+	};
+	// Command names follow profile names, so re-register once typing settles.
+	private readonly saveProfileNameDebounced = debounce(
+		() => {
+			void this.plugin.saveSettings();
+			this.plugin.syncProfileCommands();
+		},
+		400,
+		true
+	);
+	// Gradient sliders fire on every tick; write and repaint once dragging settles.
+	private readonly saveGradientDebounced = debounce(
+		() => {
+			void this.plugin.saveSettings();
+			this.plugin.applySelectedBackground();
+		},
+		400,
+		true
+	);
 
 	constructor(app: App, plugin: DivergencesPlusPlugin) {
 		super(app, plugin);
@@ -378,25 +786,50 @@ export class MyPluginSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("CSS variable")
-			.setDesc("CSS variable to update with the selected image URL.")
+			.setDesc("CSS variable to update with the selected dark theme image URL.")
 			.addText((text) =>
 				text
 					.setPlaceholder("--anp-background-image-dark")
 					.setValue(this.plugin.settings.cssVariableName)
 					.onChange(async (value) => {
+						this.plugin.clearCssBackground("dark");
 						this.plugin.settings.cssVariableName = value.trim();
 						await this.plugin.saveSettings();
 						this.plugin.applySelectedBackground();
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("CSS variable (light)")
+			.setDesc("CSS variable to update with the selected light theme image URL.")
+			.addText((text) =>
+				text
+					.setPlaceholder("--anp-background-image-light")
+					.setValue(this.plugin.settings.cssVariableNameLight)
+					.onChange(async (value) => {
+						this.plugin.clearCssBackground("light");
+						this.plugin.settings.cssVariableNameLight = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.applySelectedBackground();
+					})
+			);
+
+		this.displayCssTargetSettings(containerEl);
+
 		containerEl.createEl("h3", {text: "Theme colors (dark)"});
 
+		// Sampled once per render; every picker of a theme shares the same backdrop.
+		const darkContrast = this.plugin.getContrastContext("dark");
+		const lightContrast = this.plugin.getContrastContext("light");
+
 		addRgbaSetting(containerEl, {
 			name: "Base 00",
-			description: "Controls --my-color-base-00. Enter RGBA or hex with alpha.",
+			description: "Controls --my-color-base-00. Accepts any CSS color.",
 			value: this.plugin.settings.themeDarkBase00,
 			fallback: DEFAULT_SETTINGS.themeDarkBase00,
+			contrast: darkContrast,
+			pickColor: () => this.pickColorFromBackground("dark"),
+			swatches: {store: this.swatchStore, scope: "dark"},
 			onChange: async (value) => {
 				this.plugin.settings.themeDarkBase00 = value;
 				await this.plugin.saveSettings();
@@ -406,9 +839,12 @@ export class MyPluginSettingTab extends PluginSettingTab {
 
 		addRgbaSetting(containerEl, {
 			name: "Base 10",
-			description: "Controls --my-color-base-10. Enter RGBA or hex with alpha.",
+			description: "Controls --my-color-base-10. Accepts any CSS color.",
 			value: this.plugin.settings.themeDarkBase10,
 			fallback: DEFAULT_SETTINGS.themeDarkBase10,
+			contrast: darkContrast,
+			pickColor: () => this.pickColorFromBackground("dark"),
+			swatches: {store: this.swatchStore, scope: "dark"},
 			onChange: async (value) => {
 				this.plugin.settings.themeDarkBase10 = value;
 				await this.plugin.saveSettings();
@@ -416,6 +852,48 @@ export class MyPluginSettingTab extends PluginSettingTab {
 			},
 		});
 
+		new Setting(containerEl).setName("Theme colors (light)").setHeading();
+
+		addRgbaSetting(containerEl, {
+			name: "Base 00",
+			description: "Controls --my-color-base-00 in light theme. Accepts any CSS color.",
+			value: this.plugin.settings.themeLightBase00,
+			fallback: DEFAULT_SETTINGS.themeLightBase00,
+			contrast: lightContrast,
+			pickColor: () => this.pickColorFromBackground("light"),
+			swatches: {store: this.swatchStore, scope: "light"},
+			onChange: async (value) => {
+				this.plugin.settings.themeLightBase00 = value;
+				await this.plugin.saveSettings();
+				this.plugin.applyThemeColors();
+			},
+		});
+
+		addRgbaSetting(containerEl, {
+			name: "Base 10",
+			description: "Controls --my-color-base-10 in light theme. Accepts any CSS color.",
+			value: this.plugin.settings.themeLightBase10,
+			fallback: DEFAULT_SETTINGS.themeLightBase10,
+			contrast: lightContrast,
+			pickColor: () => this.pickColorFromBackground("light"),
+			swatches: {store: this.swatchStore, scope: "light"},
+			onChange: async (value) => {
+				this.plugin.settings.themeLightBase10 = value;
+				await this.plugin.saveSettings();
+				this.plugin.applyThemeColors();
+			},
+		});
+
+		this.displayThemeVariableSettings(containerEl);
+		this.displayDerivedColorSettings(containerEl);
+		this.displayGradientSettings(containerEl);
+		this.displayEffectSettings(containerEl);
+		this.displayProfileSettings(containerEl);
+		this.displayNoteBackgroundSettings(containerEl);
+		this.displayCollectionSettings(containerEl);
+		this.displayRotationSettings(containerEl);
+		this.displayScheduleSettings(containerEl);
+
 		new Setting(containerEl)
 			.setName("Open picker")
 			.setDesc("Open the tile view and choose a background image.")
@@ -427,11 +905,1124 @@ export class MyPluginSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Clear selection")
-			.setDesc("Remove the selected background image.")
+			.setDesc("Remove the selected background image for the dark or light theme.")
+			.addButton((button) =>
+				button.setButtonText("Clear dark").onClick(async () => {
+					await this.plugin.clearBackgroundSelection("dark");
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Clear light").onClick(async () => {
+					await this.plugin.clearBackgroundSelection("light");
+				})
+			);
+	}
+
+	private async pickColorFromBackground(slot: ThemeSlot): Promise<RgbaColor | null> {
+		const image = await this.plugin.loadBackgroundForSampling(slot);
+		if (!image) {
+			new Notice("No background image to sample for this theme.");
+			return null;
+		}
+		return new Promise((resolve) => {
+			new EyedropperModal(this.app, image, resolve).open();
+		});
+	}
+
+	private displayThemeVariableSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Theme variables").setHeading();
+		containerEl.createEl("p", {
+			text: "Set any color variable your theme exposes. Rows are written after base 00 and base 10, so they can also override them.",
+			cls: "setting-item-description",
+		});
+
+		settings.themeVariables.forEach((variable, index) => {
+			this.addThemeVariableSetting(containerEl, variable, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add variable").onClick(async () => {
+				settings.themeVariables.push(createThemeColorVariable());
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private addThemeVariableSetting(
+		containerEl: HTMLElement,
+		variable: ThemeColorVariable,
+		index: number
+	): void {
+		const settings = this.plugin.settings;
+		const saveVariable = async (): Promise<void> => {
+			await this.plugin.saveSettings();
+			this.plugin.applyThemeColors();
+		};
+		const setting = addRgbaSetting(containerEl, {
+			name: variable.name || `Variable ${index + 1}`,
+			description: "Scope and variable name, e.g. --color-accent.",
+			value: variable.value,
+			fallback: DEFAULT_THEME_VARIABLE_COLOR,
+			pickColor: () =>
+				this.pickColorFromBackground(
+					variable.scope === "body" ? this.plugin.getActiveThemeSlot() : variable.scope
+				),
+			swatches: {store: this.swatchStore, scope: variable.scope},
+			onChange: async (value) => {
+				variable.value = value;
+				await saveVariable();
+			},
+		});
+		setting.settingEl.addClass("anp-theme-variable-setting");
+		const fields = setting.infoEl.createDiv({cls: "anp-theme-variable-fields"});
+		const scopeSelect = fields.createEl("select", {cls: "dropdown"});
+		for (const [scope, label] of [
+			["dark", "Dark theme"],
+			["light", "Light theme"],
+			["body", "Both themes"],
+		] as const) {
+			scopeSelect.createEl("option", {value: scope, text: label});
+		}
+		scopeSelect.value = variable.scope;
+		scopeSelect.addEventListener("change", () => {
+			variable.scope = scopeSelect.value as ThemeVariableScope;
+			// The swatch row's tonal scale direction depends on the scope.
+			void saveVariable().then(() => this.display());
+		});
+		const nameInput = fields.createEl("input", {
+			type: "text",
+			attr: {placeholder: "--color-accent", spellcheck: "false"},
+		});
+		nameInput.value = variable.name;
+		nameInput.addEventListener("change", () => {
+			variable.name = nameInput.value.trim();
+			setting.setName(variable.name || `Variable ${index + 1}`);
+			void saveVariable();
+		});
+		setting.addExtraButton((button) =>
+			button
+				.setIcon("trash")
+				.setTooltip("Delete variable")
+				.onClick(async () => {
+					settings.themeVariables.splice(index, 1);
+					await saveVariable();
+					this.display();
+				})
+		);
+	}
+
+	private displayDerivedColorSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Colors from background").setHeading();
+
+		new Setting(containerEl)
+			.setName("Derive dark theme colors")
+			.setDesc("Sample the dark theme background and update base 00 and base 10 when it changes.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.autoThemeColors).onChange(async (value) => {
+					settings.autoThemeColors = value;
+					await this.plugin.saveSettings();
+					if (value) {
+						this.plugin.refreshAutoThemeColors();
+					}
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Lock theme colors")
+			.setDesc("Keep the current colors; derived colors are only shown as a preview.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.themeColorsLocked).onChange(async (value) => {
+					settings.themeColorsLocked = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		let palette: ColorPalette | null = null;
+		const preview = new Setting(containerEl).setName("Suggested colors");
+		const swatchesEl = preview.descEl.createDiv({cls: "anp-derived-swatches"});
+		const renderPreview = (): void => {
+			swatchesEl.empty();
+			if (!palette) {
+				swatchesEl.setText("No readable image for the dark theme.");
+				return;
+			}
+			const suggestion = suggestDarkThemeColors(palette, settings.autoThemeColorAlpha);
+			for (const color of palette.colors) {
+				addColorSwatch(swatchesEl, formatRgbaColor(color), "anp-derived-swatch");
+			}
+			swatchesEl.createSpan({cls: "anp-derived-arrow", text: "→"});
+			addColorSwatch(swatchesEl, suggestion.base00, "anp-derived-swatch is-suggestion");
+			addColorSwatch(swatchesEl, suggestion.base10, "anp-derived-swatch is-suggestion");
+		};
+		swatchesEl.setText("Sampling background…");
+		void this.plugin
+			.sampleBackgroundPalette(this.plugin.getSelectedImageUrl("dark"))
+			.then((result) => {
+				palette = result;
+				renderPreview();
+			});
+
+		preview
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.3, 1, 0.01)
+					.setValue(settings.autoThemeColorAlpha)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						settings.autoThemeColorAlpha = value;
+						this.saveSettingsDebounced();
+						renderPreview();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(async () => {
+						if (!palette) {
+							return;
+						}
+						await this.plugin.applyThemeColorSuggestion(
+							suggestDarkThemeColors(palette, settings.autoThemeColorAlpha)
+						);
+						this.display();
+					})
+			);
+	}
+
+	private displayEffectSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Background effects").setHeading();
+
+		new Setting(containerEl)
+			.setName("Render background layer")
+			.setDesc(
+				"Draw the image on a plugin layer behind the workspace. Turn off if your theme or snippet already reads the CSS variable."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(settings.renderBackgroundLayer).onChange(async (value) => {
+					settings.renderBackgroundLayer = value;
+					await this.plugin.saveSettings();
+					this.plugin.applySelectedBackground();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Transition duration")
+			.setDesc(
+				"Crossfade length in milliseconds. Reduced motion preferences always switch instantly."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 3000, 100)
+					.setValue(settings.transitionDurationMs)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						settings.transitionDurationMs = value;
+						this.saveSettingsDebounced();
+					})
+			);
+
+		const targets = new Map<string, string>([["", "All images (default)"]]);
+		for (const path of [
+			settings.selectedImagePath,
+			settings.selectedImagePathLight,
+			...Object.keys(settings.imageEffects),
+		]) {
+			const key = path.trim();
+			if (key && !targets.has(key)) {
+				targets.set(key, key);
+			}
+		}
+		if (!targets.has(this.effectsTarget)) {
+			this.effectsTarget = "";
+		}
+		const target = this.effectsTarget;
+		const hasOverride = Boolean(target && settings.imageEffects[target]);
+
+		new Setting(containerEl)
+			.setName("Edit effects for")
+			.setDesc(
+				"Defaults apply to every image without its own override. Values are published as extra CSS variables such as --anp-background-image-dark-blur."
+			)
+			.addDropdown((dropdown) => {
+				for (const [value, label] of targets) {
+					dropdown.addOption(value, label);
+				}
+				dropdown.setValue(target);
+				dropdown.onChange((value) => {
+					this.effectsTarget = value;
+					this.display();
+				});
+			})
+			.addExtraButton((button) =>
+				button
+					.setIcon("rotate-ccw")
+					.setTooltip("Remove image override")
+					.setDisabled(!hasOverride)
+					.onClick(async () => {
+						if (!hasOverride) {
+							return;
+						}
+						delete settings.imageEffects[target];
+						await this.plugin.saveSettings();
+						this.plugin.applySelectedBackground();
+						this.display();
+					})
+			);
+
+		const current = target
+			? settings.imageEffects[target] ?? settings.defaultEffects
+			: settings.defaultEffects;
+		const update = (mutate: (effects: BackgroundEffects) => void): void => {
+			// The first edit of an image copies the defaults into its own override.
+			let effects = settings.defaultEffects;
+			if (target) {
+				effects = settings.imageEffects[target] ?? {...settings.defaultEffects};
+				settings.imageEffects[target] = effects;
+			}
+			mutate(effects);
+			this.plugin.applySelectedBackground();
+			this.saveSettingsDebounced();
+		};
+
+		const addEffectSlider = (
+			name: string,
+			description: string,
+			limits: [number, number, number],
+			value: number,
+			onChange: (effects: BackgroundEffects, value: number) => void
+		): void => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(description)
+				.addSlider((slider) =>
+					slider
+						.setLimits(limits[0], limits[1], limits[2])
+						.setValue(value)
+						.setDynamicTooltip()
+						.onChange((next) => update((effects) => onChange(effects, next)))
+				);
+		};
+
+		addEffectSlider("Blur", "Blur radius in pixels.", [0, 40, 1], current.blur, (effects, value) => {
+			effects.blur = value;
+		});
+		addEffectSlider(
+			"Dim",
+			"Opacity of a dark overlay, in percent.",
+			[0, 100, 1],
+			Math.round(current.dim * 100),
+			(effects, value) => {
+				effects.dim = value / 100;
+			}
+		);
+		addEffectSlider(
+			"Brightness",
+			"Brightness filter, in percent.",
+			[0, 200, 5],
+			current.brightness,
+			(effects, value) => {
+				effects.brightness = value;
+			}
+		);
+		addEffectSlider(
+			"Saturation",
+			"Saturation filter, in percent.",
+			[0, 200, 5],
+			current.saturation,
+			(effects, value) => {
+				effects.saturation = value;
+			}
+		);
+
+		new Setting(containerEl)
+			.setName("Position")
+			.setDesc("Any background-position value, for example center or top left.")
+			.addText((text) =>
+				text
+					.setValue(current.position)
+					.onChange((value) =>
+						update((effects) => {
+							effects.position = value.trim();
+						})
+					)
+			);
+
+		new Setting(containerEl)
+			.setName("Size")
+			.setDesc("Cover, contain or a custom background-size value such as auto 100%.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("cover", "Cover");
+				dropdown.addOption("contain", "Contain");
+				dropdown.addOption("custom", "Custom");
+				dropdown.setValue(current.size);
+				dropdown.onChange((value) => {
+					update((effects) => {
+						effects.size = value as BackgroundSizeMode;
+					});
+					this.display();
+				});
+			})
+			.addText((text) => {
+				text
+					.setValue(current.customSize)
+					.onChange((value) =>
+						update((effects) => {
+							effects.customSize = value.trim();
+						})
+					);
+				text.inputEl.toggleClass("anp-is-hidden", current.size !== "custom");
+			});
+
+		new Setting(containerEl)
+			.setName("Repeat")
+			.setDesc("Background-repeat value.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("no-repeat", "No repeat");
+				dropdown.addOption("repeat", "Repeat");
+				dropdown.addOption("repeat-x", "Repeat horizontally");
+				dropdown.addOption("repeat-y", "Repeat vertically");
+				dropdown.setValue(current.repeat);
+				dropdown.onChange((value) =>
+					update((effects) => {
+						effects.repeat = value as BackgroundRepeatMode;
+					})
+				);
+			});
+	}
+
+	private displayNoteBackgroundSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Per-note backgrounds").setHeading();
+
+		new Setting(containerEl)
+			.setName("Use note frontmatter")
+			.setDesc("Show the note's own background while it is focused.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.noteBackgroundsEnabled).onChange(async (value) => {
+					settings.noteBackgroundsEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshNoteBackground();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Frontmatter key")
+			.setDesc("Property holding an image path, wikilink or URL (default: background).")
+			.addText((text) =>
+				text
+					.setValue(settings.noteBackgroundKey)
+					.onChange(async (value) => {
+						settings.noteBackgroundKey = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshNoteBackground();
+					})
+			);
+
+		new Setting(containerEl).setName("Folder and tag rules").setHeading();
+		containerEl.createEl("p", {
+			text: "Map folders (globs such as work/clients/**) or tags (#journal) to an image. The first matching rule wins; frontmatter still takes priority.",
+			cls: "setting-item-description",
+		});
+
+		settings.backgroundRules.forEach((rule, index) => {
+			this.addBackgroundRuleSetting(containerEl, rule, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add rule").onClick(async () => {
+				settings.backgroundRules.push(createBackgroundRule());
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private displayGradientSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Gradient backgrounds").setHeading();
+		containerEl.createEl("p", {
+			text: "Gradients and solid colors can be chosen like images and also appear as tiles in the picker.",
+			cls: "setting-item-description",
+		});
+
+		for (const gradient of settings.gradients) {
+			this.addGradientSetting(containerEl, gradient);
+		}
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add gradient").onClick(async () => {
+				settings.gradients.push(createGradient(settings.gradients));
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private addGradientSetting(containerEl: HTMLElement, gradient: BackgroundGradient): void {
+		// Edits re-render the selected background right away when this gradient is in use.
+		const saveGradient = async (): Promise<void> => {
+			await this.plugin.saveSettings();
+			this.plugin.applySelectedBackground();
+		};
+		const setting = new Setting(containerEl);
+		setting.settingEl.addClass("anp-gradient-setting");
+		const preview = setting.nameEl.createDiv({cls: "anp-gradient-preview"});
+		const syncPreview = (): void => {
+			preview.style.setProperty("--anp-gradient-preview", buildGradientCss(gradient));
+		};
+		syncPreview();
+		setting
+			.addText((text) =>
+				text
+					.setPlaceholder("Gradient name")
+					.setValue(gradient.name)
+					.onChange((value) => {
+						gradient.name = value.trim();
+						this.saveSettingsDebounced();
+					})
+			)
+			.addDropdown((dropdown) => {
+				for (const type of GRADIENT_TYPES) {
+					dropdown.addOption(type, GRADIENT_TYPE_LABELS[type]);
+				}
+				dropdown.setValue(gradient.type);
+				dropdown.onChange(async (value) => {
+					gradient.type = value as GradientType;
+					await saveGradient();
+					this.display();
+				});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(async () => {
+						await this.plugin.setBackgroundByRelativePath(getGradientReference(gradient));
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete gradient")
+					.onClick(async () => {
+						await this.plugin.deleteBackgroundGradient(gradient.id);
+						this.display();
+					})
+			);
+
+		if (gradient.type === "linear" || gradient.type === "conic") {
+			new Setting(containerEl)
+				.setName("Angle")
+				.setDesc("Direction in degrees.")
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, 360, 5)
+						.setValue(gradient.angle)
+						.setDynamicTooltip()
+						.onChange((value) => {
+							gradient.angle = value;
+							syncPreview();
+							this.saveGradientDebounced();
+						})
+				);
+		}
+
+		// A solid color only uses its first stop.
+		const stops = gradient.type === "solid" ? gradient.stops.slice(0, 1) : gradient.stops;
+		stops.forEach((stop, index) => {
+			this.addGradientStopSetting(containerEl, gradient, stop, index, syncPreview, saveGradient);
+		});
+
+		if (gradient.type !== "solid") {
+			new Setting(containerEl).addButton((button) =>
+				button.setButtonText("Add stop").onClick(async () => {
+					const last = gradient.stops[gradient.stops.length - 1];
+					gradient.stops.push({color: last?.color ?? DEFAULT_THEME_VARIABLE_COLOR, position: 100});
+					await saveGradient();
+					this.display();
+				})
+			);
+		}
+	}
+
+	private addGradientStopSetting(
+		containerEl: HTMLElement,
+		gradient: BackgroundGradient,
+		stop: GradientStop,
+		index: number,
+		syncPreview: () => void,
+		saveGradient: () => Promise<void>
+	): void {
+		const setting = addRgbaSetting(containerEl, {
+			name: gradient.type === "solid" ? "Color" : `Stop ${index + 1}`,
+			description: "Accepts any CSS color.",
+			value: stop.color,
+			fallback: DEFAULT_THEME_VARIABLE_COLOR,
+			swatches: {store: this.swatchStore, scope: "body"},
+			onChange: async (value) => {
+				stop.color = value;
+				syncPreview();
+				await saveGradient();
+			},
+		});
+		if (gradient.type === "solid") {
+			return;
+		}
+		setting
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 100, 1)
+					.setValue(stop.position)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						stop.position = value;
+						syncPreview();
+						this.saveGradientDebounced();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove stop")
+					.setDisabled(gradient.stops.length <= 2)
+					.onClick(async () => {
+						if (gradient.stops.length <= 2) {
+							return;
+						}
+						gradient.stops.splice(index, 1);
+						await saveGradient();
+						this.display();
+					})
+			);
+	}
+
+	private displayProfileSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Appearance profiles").setHeading();
+		containerEl.createEl("p", {
+			text: "Save the selected images, CSS variable names, theme colors and effects under a name. Each profile also gets its own command.",
+			cls: "setting-item-description",
+		});
+
+		for (const profile of settings.profiles) {
+			this.addProfileSetting(containerEl, profile);
+		}
+
+		let newName = "";
+		new Setting(containerEl)
+			.setName("Save current look")
+			.addText((text) =>
+				text.setPlaceholder("Focus").onChange((value) => {
+					newName = value;
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Save profile").onClick(async () => {
+					await this.plugin.saveAppearanceProfile(newName);
+					this.display();
+				})
+			);
+	}
+
+	private addProfileSetting(containerEl: HTMLElement, profile: AppearanceProfile): void {
+		const setting = new Setting(containerEl).setDesc(
+			profile.selectedImagePath || profile.selectedImagePathLight || "No image selected"
+		);
+		setting
+			.addText((text) =>
+				text
+					.setPlaceholder("Profile name")
+					.setValue(profile.name)
+					.onChange((value) => {
+						profile.name = value.trim();
+						this.saveProfileNameDebounced();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(async () => {
+						await this.plugin.applyAppearanceProfile(profile.id);
+						this.display();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("save")
+					.setTooltip("Overwrite with current settings")
+					.onClick(async () => {
+						await this.plugin.updateAppearanceProfile(profile.id);
+						this.display();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete profile")
+					.onClick(async () => {
+						await this.plugin.deleteAppearanceProfile(profile.id);
+						this.display();
+					})
+			);
+	}
+
+	private displayCssTargetSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Additional CSS variables").setHeading();
+		containerEl.createEl("p", {
+			text: "Write the selected image to more variables. The value template replaces {url} with the image URL; leave it empty for url(\"{url}\").",
+			cls: "setting-item-description",
+		});
+
+		settings.cssVariableTargets.forEach((target, index) => {
+			this.addCssTargetSetting(containerEl, target, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add CSS variable").onClick(async () => {
+				settings.cssVariableTargets.push(createCssVariableTarget("dark"));
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private addCssTargetSetting(
+		containerEl: HTMLElement,
+		target: CssVariableTarget,
+		index: number
+	): void {
+		const settings = this.plugin.settings;
+		const saveTarget = async (): Promise<void> => {
+			await this.plugin.saveSettings();
+			this.plugin.applySelectedBackground();
+		};
+		const setting = new Setting(containerEl).setName(`Variable ${index + 1}`);
+		setting.settingEl.addClass("anp-css-target-setting");
+		setting
+			.addDropdown((dropdown) => {
+				dropdown.addOption("dark", "Dark");
+				dropdown.addOption("light", "Light");
+				dropdown.setValue(target.slot);
+				dropdown.onChange(async (value) => {
+					this.plugin.clearCssBackground(target.slot);
+					target.slot = value as ThemeSlot;
+					await saveTarget();
+				});
+			})
+			.addText((text) =>
+				text
+					.setPlaceholder("--my-background")
+					.setValue(target.name)
+					.onChange(async (value) => {
+						target.name = value.trim();
+						await saveTarget();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('url("{url}")')
+					.setValue(target.template)
+					.onChange(async (value) => {
+						target.template = value.trim();
+						await saveTarget();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete variable")
+					.onClick(async () => {
+						settings.cssVariableTargets.splice(index, 1);
+						await saveTarget();
+						this.display();
+					})
+			);
+	}
+
+	private addBackgroundRuleSetting(
+		containerEl: HTMLElement,
+		rule: BackgroundRule,
+		index: number
+	): void {
+		const settings = this.plugin.settings;
+		const saveRule = async (): Promise<void> => {
+			await this.plugin.saveSettings();
+			this.plugin.invalidateBackgroundRules();
+		};
+		const setting = new Setting(containerEl).setName(`Rule ${index + 1}`);
+		setting.settingEl.addClass("anp-rule-setting");
+		setting
+			.addDropdown((dropdown) => {
+				dropdown.addOption("folder", "Folder");
+				dropdown.addOption("tag", "Tag");
+				dropdown.setValue(rule.type);
+				dropdown.onChange(async (value) => {
+					rule.type = value as BackgroundRuleType;
+					await saveRule();
+				});
+			})
+			.addText((text) =>
+				text
+					.setPlaceholder("Projects/**")
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value.trim();
+						await saveRule();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Image path")
+					.setValue(rule.target)
+					.onChange(async (value) => {
+						rule.target = value.trim();
+						await saveRule();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) {
+							return;
+						}
+						settings.backgroundRules.splice(index, 1);
+						settings.backgroundRules.splice(index - 1, 0, rule);
+						await saveRule();
+						this.display();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete rule")
+					.onClick(async () => {
+						settings.backgroundRules.splice(index, 1);
+						await saveRule();
+						this.display();
+					})
+			);
+	}
+
+	private displayRotationSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Rotation").setHeading();
+
+		new Setting(containerEl)
+			.setName("Rotate backgrounds")
+			.setDesc("Change the background of the current theme on a fixed interval.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.rotationEnabled).onChange(async (value) => {
+					settings.rotationEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.restartRotation();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Interval (minutes)")
+			.setDesc("How long each background stays before the next one is applied.")
+			.addText((text) => {
+				text
+					.setPlaceholder("30")
+					.setValue(String(settings.rotationIntervalMinutes))
+					.onChange(async (value) => {
+						const minutes = Number.parseInt(value, 10);
+						if (!Number.isFinite(minutes) || minutes < 1) {
+							return;
+						}
+						settings.rotationIntervalMinutes = minutes;
+						await this.plugin.saveSettings();
+						this.plugin.restartRotation();
+					});
+				text.inputEl.type = "number";
+				text.inputEl.min = "1";
+			});
+
+		new Setting(containerEl)
+			.setName("Rotation source")
+			.setDesc("Draw from the whole image folder or from a named playlist.")
+			.addDropdown((dropdown) => {
+				for (const source of ROTATION_SOURCES) {
+					dropdown.addOption(source.value, source.label);
+				}
+				dropdown.setValue(settings.rotationSource);
+				dropdown.onChange(async (value) => {
+					settings.rotationSource = value as RotationSource;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		if (settings.rotationSource === "playlist") {
+			new Setting(containerEl)
+				.setName("Rotation playlist")
+				.setDesc("Playlist used when the rotation source is a playlist.")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "None");
+					for (const playlist of settings.playlists) {
+						dropdown.addOption(playlist.name, playlist.name);
+					}
+					dropdown.setValue(settings.rotationPlaylistName);
+					dropdown.onChange(async (value) => {
+						settings.rotationPlaylistName = value;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		settings.playlists.forEach((playlist, index) => {
+			const setting = new Setting(containerEl)
+				.setName(`Playlist ${index + 1}`)
+				.setDesc("Name, then one image path per line relative to the image folder.")
+				.addText((text) =>
+					text
+						.setPlaceholder("Evening")
+						.setValue(playlist.name)
+						.onChange(async (value) => {
+							const nextName = value.trim();
+							// Keep the rotation pointing at the renamed playlist.
+							if (settings.rotationPlaylistName === playlist.name) {
+								settings.rotationPlaylistName = nextName;
+							}
+							playlist.name = nextName;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addTextArea((textArea) => {
+					textArea
+						.setPlaceholder("calm/forest.jpg")
+						.setValue(playlist.paths.join("\n"))
+						.onChange(async (value) => {
+							playlist.paths = parsePlaylistPaths(value);
+							await this.plugin.saveSettings();
+						});
+					textArea.inputEl.rows = 4;
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete playlist")
+						.onClick(async () => {
+							settings.playlists.splice(index, 1);
+							if (settings.rotationPlaylistName === playlist.name) {
+								settings.rotationPlaylistName = "";
+							}
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+			setting.settingEl.addClass("anp-playlist-setting");
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add playlist").onClick(async () => {
+				settings.playlists.push({
+					name: `Playlist ${settings.playlists.length + 1}`,
+					paths: [],
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private displayCollectionSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Collections").setHeading();
+		containerEl.createEl("p", {
+			text: "Right-click a tile in the picker to star it or add it to a collection, then filter the grid with the collection menu.",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("Favorites")
+			.setDesc(`${settings.favoriteImages.length} starred`)
 			.addButton((button) =>
 				button.setButtonText("Clear").onClick(async () => {
-					await this.plugin.clearBackgroundSelection();
+					settings.favoriteImages = [];
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		settings.collections.forEach((collection, index) => {
+			new Setting(containerEl)
+				.setName(`Collection ${index + 1}`)
+				.setDesc(`${collection.paths.length} images`)
+				.addText((text) =>
+					text
+						.setPlaceholder("Nature")
+						.setValue(collection.name)
+						.onChange((value) => {
+							collection.name = value.trim();
+							this.saveSettingsDebounced();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete collection")
+						.onClick(async () => {
+							settings.collections.splice(index, 1);
+							if (settings.pickerCollectionFilter === collection.id) {
+								settings.pickerCollectionFilter = "";
+							}
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add collection").onClick(async () => {
+				settings.collections.push(createCollection(settings.collections));
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private displayScheduleSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		new Setting(containerEl).setName("Schedule").setHeading();
+
+		new Setting(containerEl)
+			.setName("Use time-of-day schedule")
+			.setDesc(
+				"Apply an image or playlist when a time range starts. The first matching row wins."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(settings.scheduleEnabled).onChange(async (value) => {
+					settings.scheduleEnabled = value;
+					await this.plugin.saveSettings();
+					await this.plugin.evaluateSchedule();
 				})
 			);
+
+		settings.schedule.forEach((entry, index) => {
+			this.addScheduleEntrySetting(containerEl, entry, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add schedule row").onClick(async () => {
+				settings.schedule.push(createScheduleEntry(settings.schedule));
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private addScheduleEntrySetting(
+		containerEl: HTMLElement,
+		entry: ScheduleEntry,
+		index: number
+	): void {
+		const settings = this.plugin.settings;
+		const saveEntry = async (): Promise<void> => {
+			await this.plugin.saveSettings();
+			await this.plugin.evaluateSchedule();
+		};
+		const addClockField = (
+			setting: Setting,
+			key: "start" | "end",
+			placeholder: string
+		): void => {
+			setting.addText((text) => {
+				text
+					.setPlaceholder(placeholder)
+					.setValue(entry[key])
+					.onChange((value) => {
+						// Ignore partial input until it parses as HH:MM.
+						if (parseClockTime(value) === null) {
+							return;
+						}
+						entry[key] = value.trim();
+						this.saveSettingsDebounced();
+					});
+				text.inputEl.addClass("anp-schedule-time");
+				// Evaluate once the edit is committed, not on every keystroke.
+				text.inputEl.addEventListener("change", () => void saveEntry());
+			});
+		};
+
+		const setting = new Setting(containerEl)
+			.setName(`Schedule ${index + 1}`)
+			.setDesc("Start and end as hh:mm, weekdays (none means every day), then the target.");
+		setting.settingEl.addClass("anp-schedule-setting");
+		addClockField(setting, "start", "06:00");
+		addClockField(setting, "end", "11:00");
+
+		const days = setting.controlEl.createDiv({cls: "anp-schedule-days"});
+		WEEKDAY_LABELS.forEach((label, day) => {
+			const dayButton = days.createEl("button", {cls: "anp-schedule-day", text: label});
+			dayButton.type = "button";
+			dayButton.toggleClass("is-active", entry.days.includes(day));
+			dayButton.addEventListener("click", () => {
+				entry.days = entry.days.includes(day)
+					? entry.days.filter((value) => value !== day)
+					: [...entry.days, day].sort((a, b) => a - b);
+				dayButton.toggleClass("is-active", entry.days.includes(day));
+				void saveEntry();
+			});
+		});
+
+		setting.addDropdown((dropdown) => {
+			dropdown.addOption("image", "Image");
+			dropdown.addOption("playlist", "Playlist");
+			dropdown.setValue(entry.targetType);
+			dropdown.onChange(async (value) => {
+				entry.targetType = value as ScheduleTargetType;
+				entry.target = "";
+				await saveEntry();
+				this.display();
+			});
+		});
+
+		if (entry.targetType === "playlist") {
+			setting.addDropdown((dropdown) => {
+				dropdown.addOption("", "Select playlist");
+				for (const playlist of settings.playlists) {
+					dropdown.addOption(playlist.name, playlist.name);
+				}
+				dropdown.setValue(entry.target);
+				dropdown.onChange(async (value) => {
+					entry.target = value;
+					await saveEntry();
+				});
+			});
+		} else {
+			setting.addText((text) => {
+				text
+					.setPlaceholder("bright/morning.jpg")
+					.setValue(entry.target)
+					.onChange((value) => {
+						entry.target = value.trim();
+						this.saveSettingsDebounced();
+					});
+				// Partial paths must never be applied, so evaluate only once the edit is committed.
+				text.inputEl.addEventListener("change", () => void saveEntry());
+			});
+		}
+
+		setting.addExtraButton((button) =>
+			button
+				.setIcon("trash")
+				.setTooltip("Delete schedule row")
+				.onClick(async () => {
+					settings.schedule.splice(index, 1);
+					await saveEntry();
+					this.display();
+				})
+		);
 	}
 }
@@ -0,0 +1,221 @@
+/* src/ui/background-layer.ts
+ * Double-buffered background layer rendered behind the workspace.
+ * Why: crossfades between images or videos instead of flashing an empty background.
+ * Related: src/main.ts, src/utils/effect-utils.ts, styles.css */
+import type {EffectVariableSuffix} from "../utils/effect-utils";
+
+export class BackgroundLayer {
+	private rootEl: HTMLDivElement | null = null;
+	private buffers: HTMLDivElement[] = [];
+	private activeIndex = 0;
+	private currentUrl = "";
+	private showToken = 0;
+	private playbackAllowed = true;
+
+	/**
+	 * Show `url` on the hidden buffer and fade it in over `durationMs`.
+	 * Callers preload the image first so the fade never starts from a blank buffer.
+	 */
+	show(url: string, effects: Record<EffectVariableSuffix, string>, durationMs: number): void {
+		const next = this.prepareNextBuffer(url, effects, durationMs);
+		if (!next) {
+			return;
+		}
+		const safeUrl = url.replace(/"/g, "%22");
+		next.buffer.style.backgroundImage = `url("${safeUrl}")`;
+		this.activate(next.index, durationMs);
+	}
+
+	/**
+	 * Fade in a CSS gradient. The gradient text doubles as its identity, so edits re-fade.
+	 */
+	showGradient(
+		css: string,
+		effects: Record<EffectVariableSuffix, string>,
+		durationMs: number
+	): void {
+		const next = this.prepareNextBuffer(css, effects, durationMs);
+		if (!next) {
+			return;
+		}
+		next.buffer.style.backgroundImage = css;
+		this.activate(next.index, durationMs);
+	}
+
+	/**
+	 * Play `url` as a muted, looping video. The fade starts once the first frame is decoded.
+	 */
+	showVideo(
+		url: string,
+		effects: Record<EffectVariableSuffix, string>,
+		durationMs: number
+	): void {
+		const next = this.prepareNextBuffer(url, effects, durationMs);
+		if (!next) {
+			return;
+		}
+		const token = this.showToken;
+		const video = document.createElement("video");
+		video.className = "anp-bg-layer-video";
+		video.muted = true;
+		video.loop = true;
+		video.playsInline = true;
+		video.preload = "auto";
+		this.applyVideoEffects(video, effects);
+		video.addEventListener(
+			"loadeddata",
+			() => {
+				if (token !== this.showToken) {
+					return;
+				}
+				this.activate(next.index, durationMs);
+				this.syncPlayback();
+			},
+			{once: true}
+		);
+		next.buffer.style.removeProperty("background-image");
+		next.buffer.appendChild(video);
+		video.src = url;
+	}
+
+	clear(durationMs: number): void {
+		if (!this.rootEl) {
+			return;
+		}
+		this.showToken += 1;
+		this.rootEl.style.setProperty("--anp-bg-layer-duration", `${durationMs}ms`);
+		for (const buffer of this.buffers) {
+			buffer.classList.remove("is-active");
+			this.releaseVideo(buffer, durationMs);
+		}
+		this.currentUrl = "";
+	}
+
+	/**
+	 * Pause videos while the window is hidden or unfocused to save CPU.
+	 */
+	setPlaybackAllowed(allowed: boolean): void {
+		this.playbackAllowed = allowed;
+		this.syncPlayback();
+	}
+
+	destroy(): void {
+		this.showToken += 1;
+		for (const buffer of this.buffers) {
+			buffer.querySelector("video")?.pause();
+		}
+		this.rootEl?.remove();
+		this.rootEl = null;
+		this.buffers = [];
+		this.activeIndex = 0;
+		this.currentUrl = "";
+	}
+
+	private prepareNextBuffer(
+		url: string,
+		effects: Record<EffectVariableSuffix, string>,
+		durationMs: number
+	): {buffer: HTMLDivElement; index: number} | null {
+		const root = this.ensureRoot();
+		root.style.setProperty("--anp-bg-layer-duration", `${durationMs}ms`);
+		const active = this.buffers[this.activeIndex];
+		if (url === this.currentUrl && active) {
+			// Same source: only refresh effects so slider edits stay live.
+			this.applyEffects(active, effects);
+			return null;
+		}
+		const index = this.activeIndex === 0 ? 1 : 0;
+		const buffer = this.buffers[index];
+		if (!buffer) {
+			return null;
+		}
+		this.showToken += 1;
+		this.currentUrl = url;
+		buffer.querySelector("video")?.remove();
+		this.applyEffects(buffer, effects);
+		return {buffer, index};
+	}
+
+	private activate(index: number, durationMs: number): void {
+		const previous = this.buffers[this.activeIndex];
+		const next = this.buffers[index];
+		next?.classList.add("is-active");
+		if (previous && previous !== next) {
+			previous.classList.remove("is-active");
+			this.releaseVideo(previous, durationMs);
+		}
+		this.activeIndex = index;
+	}
+
+	private releaseVideo(buffer: HTMLDivElement, durationMs: number): void {
+		const video = buffer.querySelector("video");
+		if (!video) {
+			return;
+		}
+		// Keep the outgoing frame visible for the fade, then stop decoding.
+		window.setTimeout(() => {
+			if (buffer.classList.contains("is-active")) {
+				return;
+			}
+			video.pause();
+			video.remove();
+		}, durationMs);
+	}
+
+	private syncPlayback(): void {
+		this.buffers.forEach((buffer, index) => {
+			const video = buffer.querySelector("video");
+			if (!video) {
+				return;
+			}
+			if (this.playbackAllowed && index === this.activeIndex) {
+				// Autoplay of muted video is allowed; ignore rejections from rapid toggles.
+				void video.play().catch(() => undefined);
+				return;
+			}
+			video.pause();
+		});
+	}
+
+	private ensureRoot(): HTMLDivElement {
+		if (this.rootEl) {
+			return this.rootEl;
+		}
+		const root = document.createElement("div");
+		root.className = "anp-bg-layer";
+		root.setAttribute("aria-hidden", "true");
+		this.buffers = [0, 1].map(() => {
+			const buffer = document.createElement("div");
+			buffer.className = "anp-bg-layer-buffer";
+			root.appendChild(buffer);
+			return buffer;
+		});
+		// First child of body keeps the layer underneath the app container.
+		document.body.prepend(root);
+		this.rootEl = root;
+		return root;
+	}
+
+	private applyEffects(
+		buffer: HTMLDivElement,
+		effects: Record<EffectVariableSuffix, string>
+	): void {
+		buffer.style.backgroundSize = effects.size;
+		buffer.style.backgroundPosition = effects.position;
+		buffer.style.backgroundRepeat = effects.repeat;
+		buffer.style.filter = effects.filter;
+		buffer.style.setProperty("--anp-bg-layer-dim", effects.dim);
+		const video = buffer.querySelector("video");
+		if (video) {
+			this.applyVideoEffects(video, effects);
+		}
+	}
+
+	private applyVideoEffects(
+		video: HTMLVideoElement,
+		effects: Record<EffectVariableSuffix, string>
+	): void {
+		video.style.objectFit = effects.size === "contain" ? "contain" : "cover";
+		video.style.objectPosition = effects.position;
+	}
+}
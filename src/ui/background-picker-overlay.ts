@@ -2,21 +2,66 @@
  * Custom overlay that shows background images in a tile grid.
  * Why: provides a picker without relying on Obsidian's Modal.
  * Related: src/main.ts, src/settings.ts, src/utils/image-utils.ts */
-import {App, Notice, normalizePath, TFile} from "obsidian";
-import type {MyPluginSettings} from "../settings";
+import {App, debounce, Menu, Notice, normalizePath, setIcon, TFile} from "obsidian";
+import type {MyPluginSettings, ThemeSlot} from "../settings";
 import {
+	COLLECTION_FILTER_ALL,
+	COLLECTION_FILTER_FAVORITES,
+	findCollection,
+} from "../utils/collection-utils";
+import {
+	FolderEntry,
+	getBreadcrumbs,
+	getFolderName,
+	groupByFolder,
+	listFolder,
+	PICKER_FOLDER_VIEWS,
+	PickerFolderView,
+} from "../utils/folder-utils";
+import {
+	buildGradientCss,
+	findGradient,
+	getGradientReference,
+	isGradientReference,
+} from "../utils/gradient-utils";
+import {
+	buildGridRows,
+	findRowIndex,
+	findVisibleRows,
+	getFixedGridLayout,
+	GridRow,
+	PICKER_TILE_SIZES,
+	PickerTileSize,
+} from "../utils/grid-utils";
+import {
+	applyIndexMetadata,
 	buildImageItemsFromRelativePaths,
 	getRemoteImageItems,
 	getRemoteIndexItems,
 	getVaultImageItems,
 	ImageItem,
+	ImageItemsResult,
+	isBackgroundPath,
+	isVideoPath,
 	resolveVaultFolderPath,
 } from "../utils/image-utils";
+import {filterByFuzzyQuery} from "../utils/search-utils";
+import {BACKGROUND_SORT_MODES, BackgroundSortMode, sortImageItems} from "../utils/sort-utils";
 
 export interface BackgroundPickerHost {
 	settings: MyPluginSettings;
-	setBackgroundByRelativePath(relativePath: string): Promise<void>;
-	clearBackgroundSelection(): Promise<void>;
+	setBackgroundByRelativePath(relativePath: string, slot?: ThemeSlot): Promise<void>;
+	clearBackgroundSelection(slot?: ThemeSlot): Promise<void>;
+	getActiveThemeSlot(): ThemeSlot;
+	getSelectedImagePath(slot: ThemeSlot): string;
+	getImageUrlForPath(relativePath: string): string;
+	previewBackground(relativePath: string, slot: ThemeSlot): void;
+	endBackgroundPreview(): void;
+	getBackgroundHistory(): string[];
+	pruneBackgroundHistory(availablePaths?: string[]): void;
+	isFavoriteImage(relativePath: string): boolean;
+	toggleImageInCollection(collectionId: string, relativePath: string): Promise<boolean>;
+	saveSettings(): Promise<void>;
 	getLinkedWhitelistInfo?: () => {enabled: boolean; files: string[]};
 	getLinkedServerInfo?: () => {
 		baseUrl: string;
@@ -26,6 +71,26 @@ export interface BackgroundPickerHost {
 	} | null;
 }
 
+// Tiles in the "recently used" strip; the full history stays available to the commands.
+const RECENT_STRIP_LIMIT = 12;
+// Matches `.anp-bg-picker-section` in styles.css; headings take a full row of this height.
+const SECTION_HEADING_HEIGHT = 28;
+// Rows mounted beyond each edge of the viewport, so short scrolls don't show empty rows.
+const OVERSCAN_ROWS = 2;
+// Hover delay before a tile is previewed, so sweeping across the grid doesn't load every image.
+const PREVIEW_DELAY_MS = 150;
+
+// One grid child: an image tile, a subfolder tile or a section heading.
+type GridEntry =
+	| {kind: "item"; item: ImageItem}
+	| {kind: "folder"; folder: FolderEntry}
+	| {kind: "heading"; label: string; count: number};
+
+interface FolderListing {
+	items: ImageItem[];
+	folders: FolderEntry[];
+}
+
 export class BackgroundPickerOverlay {
 	private app: App;
 	private host: BackgroundPickerHost;
@@ -33,14 +98,48 @@ export class BackgroundPickerOverlay {
 	private dialogEl: HTMLDivElement | null = null;
 	private gridEl: HTMLDivElement | null = null;
 	private statusEl: HTMLDivElement | null = null;
+	private recentsEl: HTMLDivElement | null = null;
+	private collectionSelect: HTMLSelectElement | null = null;
+	private searchInput: HTMLInputElement | null = null;
+	private sortSelect: HTMLSelectElement | null = null;
+	private viewSelect: HTMLSelectElement | null = null;
+	private tileSizeSelect: HTMLSelectElement | null = null;
+	private breadcrumbEl: HTMLElement | null = null;
+	// Everything the last load returned; search and collection filters narrow it without reloading.
+	private loadedItems: ImageItem[] = [];
+	private loadMessage = "";
+	// Folder shown in browse view ("" = image folder root).
+	private currentFolder = "";
+	// Source the folder belongs to; another server or image folder starts back at the root.
+	private currentFolderSourceKey = "";
+	// Subfolders from a one-folder remote load; null when they are derived from a recursive list.
+	private loadedFolders: FolderEntry[] | null = null;
+	private folderCache = new Map<string, FolderListing>();
 	private infoEl: HTMLDivElement | null = null;
-	private itemCount = 0;
+	private slotButtons = new Map<ThemeSlot, HTMLButtonElement>();
+	private slotHintEl: HTMLSpanElement | null = null;
+	private targetSlot: ThemeSlot = "dark";
 	private resizeObserver: ResizeObserver | null = null;
 	private pendingGridUpdate = false;
+	private pendingRowRender = false;
 	private renderToken = 0;
-	private renderQueue: {items: ImageItem[]; index: number; token: number} | null = null;
+	// Added to remote thumbnail URLs; changes only on open and Refresh so filtering reuses
+	// the browser cache. `renderToken` only cancels stale renders.
+	private cacheBust = 0;
+	// Virtual grid: every entry of the current view, packed into rows by the last layout.
+	// Only rows near the viewport are mounted; `gridToken` ties them to the render token.
+	private gridEntries: GridEntry[] = [];
+	private gridRows: GridRow[] = [];
+	private gridToken = 0;
+	private sizerEl: HTMLDivElement | null = null;
+	private mountedRows = new Map<number, HTMLDivElement>();
 	private selectedPath = "";
 	private selectedTile: HTMLButtonElement | null = null;
+	// Roving tabindex by entry index, so it survives the tile being unmounted.
+	private activeIndex = -1;
+	private gridColumns = 1;
+	// Tile currently shown as a live preview; the saved selection is untouched until a click.
+	private previewPath: string | null = null;
 	private cachedKey: string | null = null;
 	private cachedItems: ImageItem[] = [];
 	private cachedError = "";
@@ -57,18 +156,103 @@ export class BackgroundPickerOverlay {
 	};
 
 	private readonly handleKeydown = (event: KeyboardEvent): void => {
+		if (event.key === "Escape" && event.target === this.searchInput && this.searchInput?.value) {
+			// First Escape clears the search; the next one closes the picker.
+			event.preventDefault();
+			this.searchInput.value = "";
+			this.renderFilteredTiles();
+			return;
+		}
+		if (event.key === "ArrowDown" && event.target === this.searchInput && this.activeIndex !== -1) {
+			event.preventDefault();
+			this.focusEntry(this.activeIndex);
+			return;
+		}
 		if (event.key === "Escape") {
 			event.preventDefault();
 			this.close();
 		}
 	};
 
+	private readonly handleGridKeydown = (event: KeyboardEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const tile = target?.closest<HTMLButtonElement>(".anp-bg-picker-tile");
+		if (!tile || event.altKey || event.metaKey) {
+			return;
+		}
+		// Space keeps the native button activation.
+		if (event.key === "Enter") {
+			event.preventDefault();
+			tile.click();
+			return;
+		}
+		const index = Number(tile.dataset.entryIndex ?? -1);
+		const next = this.findEntryForKey(index, event.key, event.ctrlKey);
+		if (next === undefined) {
+			return;
+		}
+		// Keys at the edge of the grid still stop the default scroll.
+		event.preventDefault();
+		if (next !== null) {
+			this.focusEntry(next);
+		}
+	};
+
+	private readonly handleGridScroll = (): void => {
+		this.requestRowRender();
+	};
+
+	private readonly handleGridFocusIn = (event: FocusEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const tile = target?.closest<HTMLButtonElement>(".anp-bg-picker-tile");
+		if (tile) {
+			this.setActiveIndex(Number(tile.dataset.entryIndex ?? -1));
+			this.schedulePreview(tile.dataset.relativePath ?? "");
+		}
+	};
+
+	private readonly handleGridFocusOut = (event: FocusEvent): void => {
+		const next = event.relatedTarget as Node | null;
+		if (!next || !this.gridEl?.contains(next)) {
+			this.endPreview();
+		}
+	};
+
+	private readonly handleGridMouseOver = (event: MouseEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const tile = target?.closest<HTMLButtonElement>(".anp-bg-picker-tile");
+		if (tile) {
+			this.schedulePreview(tile.dataset.relativePath ?? "");
+		}
+	};
+
+	private readonly handleGridMouseLeave = (): void => {
+		// Keyboard focus keeps previewing its tile; focusout ends it once focus leaves the grid.
+		const focused = document.activeElement;
+		if (focused instanceof HTMLButtonElement && this.gridEl?.contains(focused)) {
+			this.schedulePreview(focused.dataset.relativePath ?? "");
+			return;
+		}
+		this.endPreview();
+	};
+
+	private readonly schedulePreview = debounce(
+		(relativePath: string) => this.showPreview(relativePath),
+		PREVIEW_DELAY_MS,
+		true
+	);
+
 	private readonly handleGridClick = (event: MouseEvent): void => {
 		const target = event.target as HTMLElement | null;
 		const tile = target?.closest<HTMLButtonElement>(".anp-bg-picker-tile");
 		if (!tile || !this.gridEl || !this.gridEl.contains(tile)) {
 			return;
 		}
+		const folderPath = tile.dataset.folderPath;
+		if (folderPath !== undefined) {
+			this.navigateToFolder(folderPath);
+			return;
+		}
 		const relativePath = tile.dataset.relativePath ?? "";
 		if (!relativePath) {
 			return;
@@ -76,13 +260,92 @@ export class BackgroundPickerOverlay {
 		void this.handleTileSelection(tile, relativePath);
 	};
 
+	private readonly handleGridContextMenu = (event: MouseEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const tile = target?.closest<HTMLButtonElement>(".anp-bg-picker-tile");
+		const relativePath = tile?.dataset.relativePath ?? "";
+		if (!tile || !relativePath) {
+			return;
+		}
+		event.preventDefault();
+		this.showTileMenu(event, tile, relativePath);
+	};
+
+	private readonly handleSortChange = (): void => {
+		if (!this.sortSelect) {
+			return;
+		}
+		this.host.settings.pickerSortMode = this.sortSelect.value as BackgroundSortMode;
+		void this.host.saveSettings();
+		this.loadedItems = this.sortLoadedItems(this.loadedItems);
+		this.renderFilteredTiles();
+	};
+
+	private readonly handleTileSizeChange = (): void => {
+		if (!this.tileSizeSelect) {
+			return;
+		}
+		this.host.settings.pickerTileSize = this.tileSizeSelect.value as PickerTileSize;
+		void this.host.saveSettings();
+		this.requestGridUpdate();
+	};
+
+	private readonly handleViewChange = (): void => {
+		if (!this.viewSelect) {
+			return;
+		}
+		this.host.settings.pickerFolderView = this.viewSelect.value as PickerFolderView;
+		void this.host.saveSettings();
+		// Browse view may load one folder at a time, so the source has to be read again.
+		void this.renderGrid();
+	};
+
+	private readonly handleBreadcrumbClick = (event: MouseEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const crumb = target?.closest<HTMLButtonElement>(".anp-bg-picker-crumb");
+		if (crumb?.dataset.folderPath !== undefined) {
+			this.navigateToFolder(crumb.dataset.folderPath);
+		}
+	};
+
+	private readonly handleCollectionChange = (): void => {
+		if (!this.collectionSelect) {
+			return;
+		}
+		this.host.settings.pickerCollectionFilter = this.collectionSelect.value;
+		void this.host.saveSettings();
+		this.renderFilteredTiles();
+	};
+
+	// Short delay so fast typing re-renders once instead of per keystroke.
+	private readonly handleSearchInput = debounce(() => this.renderFilteredTiles(), 120, true);
+
+	private readonly handleRecentsClick = (event: MouseEvent): void => {
+		const target = event.target as HTMLElement | null;
+		const button = target?.closest<HTMLButtonElement>(".anp-bg-picker-recent");
+		const relativePath = button?.dataset.relativePath ?? "";
+		if (!relativePath) {
+			return;
+		}
+		const tile =
+			Array.from(
+				this.gridEl?.querySelectorAll<HTMLButtonElement>(".anp-bg-picker-tile") ?? []
+			).find((candidate) => candidate.dataset.relativePath === relativePath) ?? null;
+		void this.handleTileSelection(tile, relativePath);
+	};
+
 	constructor(app: App, host: BackgroundPickerHost) {
 		this.app = app;
 		this.host = host;
 	}
 
 	open(): void {
+		// Default to the slot of the theme the user is looking at.
+		this.targetSlot = this.host.getActiveThemeSlot();
+		this.cacheBust += 1;
 		if (this.overlayEl) {
+			this.syncSlotButtons();
+			this.syncCollectionSelect();
 			this.refreshInfo();
 			void this.renderGrid();
 			this.focusDialog();
@@ -108,6 +371,15 @@ export class BackgroundPickerOverlay {
 		title.textContent = "Background picker";
 		header.appendChild(title);
 
+		const search = document.createElement("input");
+		search.type = "search";
+		search.className = "anp-bg-picker-search";
+		search.placeholder = "Search images";
+		search.spellcheck = false;
+		search.setAttribute("aria-label", "Search images");
+		search.addEventListener("input", this.handleSearchInput);
+		header.appendChild(search);
+
 		const closeButton = document.createElement("button");
 		closeButton.type = "button";
 		closeButton.className = "anp-bg-picker-close";
@@ -134,7 +406,7 @@ export class BackgroundPickerOverlay {
 		clearButton.type = "button";
 		clearButton.textContent = "Clear";
 		clearButton.addEventListener("click", async () => {
-			await this.host.clearBackgroundSelection();
+			await this.host.clearBackgroundSelection(this.targetSlot);
 			this.setSelection("", null);
 			new Notice("Background cleared.");
 		});
@@ -142,26 +414,128 @@ export class BackgroundPickerOverlay {
 
 		dialog.appendChild(controls);
 
+		// The slot switch stays visible in image-only mode so tiles always have a target.
+		const slots = document.createElement("div");
+		slots.className = "anp-bg-picker-slots";
+		slots.setAttribute("role", "radiogroup");
+		slots.setAttribute("aria-label", "Theme slot");
+		slots.appendChild(this.createSlotButton("dark", "Dark theme"));
+		slots.appendChild(this.createSlotButton("light", "Light theme"));
+		const slotHint = document.createElement("span");
+		slotHint.className = "anp-bg-picker-slot-hint";
+		slotHint.textContent = "No preview: this theme is not showing.";
+		slots.appendChild(slotHint);
+
+		const collectionSelect = document.createElement("select");
+		collectionSelect.className = "dropdown anp-bg-picker-collection";
+		collectionSelect.setAttribute("aria-label", "Collection");
+		collectionSelect.addEventListener("change", this.handleCollectionChange);
+
+		const sortSelect = document.createElement("select");
+		sortSelect.className = "dropdown anp-bg-picker-sort";
+		sortSelect.setAttribute("aria-label", "Sort by");
+		for (const mode of BACKGROUND_SORT_MODES) {
+			const option = document.createElement("option");
+			option.value = mode.value;
+			option.textContent = mode.label;
+			sortSelect.appendChild(option);
+		}
+		sortSelect.value = this.host.settings.pickerSortMode;
+		sortSelect.addEventListener("change", this.handleSortChange);
+
+		const viewSelect = document.createElement("select");
+		viewSelect.className = "dropdown anp-bg-picker-view";
+		viewSelect.setAttribute("aria-label", "Folder view");
+		for (const view of PICKER_FOLDER_VIEWS) {
+			const option = document.createElement("option");
+			option.value = view.value;
+			option.textContent = view.label;
+			viewSelect.appendChild(option);
+		}
+		viewSelect.value = this.host.settings.pickerFolderView;
+		viewSelect.addEventListener("change", this.handleViewChange);
+
+		const tileSizeSelect = document.createElement("select");
+		tileSizeSelect.className = "dropdown anp-bg-picker-tile-size";
+		tileSizeSelect.setAttribute("aria-label", "Tile size");
+		for (const size of PICKER_TILE_SIZES) {
+			const option = document.createElement("option");
+			option.value = size.value;
+			option.textContent = size.label;
+			tileSizeSelect.appendChild(option);
+		}
+		tileSizeSelect.value = this.host.settings.pickerTileSize;
+		tileSizeSelect.addEventListener("change", this.handleTileSizeChange);
+
+		const toolbar = document.createElement("div");
+		toolbar.className = "anp-bg-picker-toolbar";
+		toolbar.appendChild(slots);
+		toolbar.appendChild(collectionSelect);
+		toolbar.appendChild(sortSelect);
+		toolbar.appendChild(viewSelect);
+		toolbar.appendChild(tileSizeSelect);
+		dialog.appendChild(toolbar);
+
+		// Filled only in browse view; collapses when empty.
+		const breadcrumb = document.createElement("nav");
+		breadcrumb.className = "anp-bg-picker-breadcrumb";
+		breadcrumb.setAttribute("aria-label", "Folder");
+		breadcrumb.addEventListener("click", this.handleBreadcrumbClick);
+		dialog.appendChild(breadcrumb);
+
+		const recents = document.createElement("div");
+		recents.className = "anp-bg-picker-recents";
+		recents.setAttribute("aria-label", "Recently used");
+		dialog.appendChild(recents);
+
 		const status = document.createElement("div");
 		status.className = "anp-bg-picker-status";
 		dialog.appendChild(status);
 
 		const grid = document.createElement("div");
 		grid.className = "anp-bg-picker-grid";
+		grid.setAttribute("role", "grid");
+		grid.setAttribute("aria-label", "Backgrounds");
 		dialog.appendChild(grid);
+		// Holds the full scroll height; rows are positioned inside it.
+		const sizer = document.createElement("div");
+		sizer.className = "anp-bg-picker-grid-sizer";
+		sizer.setAttribute("role", "presentation");
+		grid.appendChild(sizer);
 
 		document.body.appendChild(overlay);
+		// Lets tile context menus stack above the overlay.
+		document.body.classList.add("anp-bg-picker-open");
 		// Escape closes the picker even if focus is inside the grid.
 		document.addEventListener("keydown", this.handleKeydown);
 		window.addEventListener("resize", this.handleResize);
 		grid.addEventListener("click", this.handleGridClick);
+		grid.addEventListener("contextmenu", this.handleGridContextMenu);
+		grid.addEventListener("keydown", this.handleGridKeydown);
+		grid.addEventListener("focusin", this.handleGridFocusIn);
+		grid.addEventListener("focusout", this.handleGridFocusOut);
+		grid.addEventListener("mouseover", this.handleGridMouseOver);
+		grid.addEventListener("mouseleave", this.handleGridMouseLeave);
+		grid.addEventListener("scroll", this.handleGridScroll);
+		recents.addEventListener("click", this.handleRecentsClick);
 
 		this.overlayEl = overlay;
 		this.dialogEl = dialog;
 		this.gridEl = grid;
 		this.statusEl = status;
+		this.recentsEl = recents;
+		this.collectionSelect = collectionSelect;
+		this.searchInput = search;
+		this.sortSelect = sortSelect;
+		this.viewSelect = viewSelect;
+		this.tileSizeSelect = tileSizeSelect;
+		this.sizerEl = sizer;
+		this.breadcrumbEl = breadcrumb;
 		this.infoEl = info;
+		this.slotHintEl = slotHint;
 
+		this.syncSlotButtons();
+		this.syncCollectionSelect();
 		this.refreshInfo();
 		this.updateAspectRatio();
 		void this.renderGrid();
@@ -174,21 +548,52 @@ export class BackgroundPickerOverlay {
 		}
 
 		this.renderToken += 1;
+		// Closing without a choice puts the saved background back.
+		this.endPreview();
 		this.overlayEl.removeEventListener("click", this.handleOverlayClick);
 		document.removeEventListener("keydown", this.handleKeydown);
 		window.removeEventListener("resize", this.handleResize);
 		this.gridEl?.removeEventListener("click", this.handleGridClick);
+		this.gridEl?.removeEventListener("contextmenu", this.handleGridContextMenu);
+		this.gridEl?.removeEventListener("keydown", this.handleGridKeydown);
+		this.gridEl?.removeEventListener("focusin", this.handleGridFocusIn);
+		this.gridEl?.removeEventListener("focusout", this.handleGridFocusOut);
+		this.gridEl?.removeEventListener("mouseover", this.handleGridMouseOver);
+		this.gridEl?.removeEventListener("mouseleave", this.handleGridMouseLeave);
+		this.gridEl?.removeEventListener("scroll", this.handleGridScroll);
+		this.collectionSelect?.removeEventListener("change", this.handleCollectionChange);
+		this.searchInput?.removeEventListener("input", this.handleSearchInput);
+		this.sortSelect?.removeEventListener("change", this.handleSortChange);
+		this.viewSelect?.removeEventListener("change", this.handleViewChange);
+		this.tileSizeSelect?.removeEventListener("change", this.handleTileSizeChange);
+		this.breadcrumbEl?.removeEventListener("click", this.handleBreadcrumbClick);
+		this.handleSearchInput.cancel();
+		this.recentsEl?.removeEventListener("click", this.handleRecentsClick);
 		this.resizeObserver?.disconnect();
 		this.resizeObserver = null;
 		this.overlayEl.remove();
+		document.body.classList.remove("anp-bg-picker-open");
 
 		this.overlayEl = null;
 		this.dialogEl = null;
 		this.gridEl = null;
 		this.statusEl = null;
+		this.recentsEl = null;
+		this.collectionSelect = null;
+		this.searchInput = null;
+		this.sortSelect = null;
+		this.viewSelect = null;
+		this.tileSizeSelect = null;
+		this.sizerEl = null;
+		this.breadcrumbEl = null;
 		this.infoEl = null;
-		this.renderQueue = null;
+		this.slotButtons.clear();
+		this.slotHintEl = null;
+		this.gridEntries = [];
+		this.gridRows = [];
+		this.mountedRows.clear();
 		this.selectedTile = null;
+		this.activeIndex = -1;
 	}
 
 	primeCache(): void {
@@ -211,6 +616,171 @@ export class BackgroundPickerOverlay {
 		this.cachedError = result.errorMessage;
 	}
 
+	private createSlotButton(slot: ThemeSlot, label: string): HTMLButtonElement {
+		const button = document.createElement("button");
+		button.type = "button";
+		button.className = "anp-bg-picker-slot";
+		button.textContent = label;
+		button.setAttribute("role", "radio");
+		button.addEventListener("click", () => this.setTargetSlot(slot));
+		this.slotButtons.set(slot, button);
+		return button;
+	}
+
+	private setTargetSlot(slot: ThemeSlot): void {
+		if (this.targetSlot === slot) {
+			return;
+		}
+		// A preview belongs to the slot it was shown on.
+		this.endPreview();
+		this.targetSlot = slot;
+		this.syncSlotButtons();
+		this.refreshSelectionMarker();
+	}
+
+	private syncSlotButtons(): void {
+		for (const [slot, button] of this.slotButtons) {
+			const isActive = slot === this.targetSlot;
+			button.classList.toggle("is-active", isActive);
+			button.setAttribute("aria-checked", String(isActive));
+		}
+		this.slotHintEl?.classList.toggle("anp-is-hidden", this.canPreviewTargetSlot());
+	}
+
+	/**
+	 * Previews only render on the theme in use; the other slot has no visible layer.
+	 */
+	private canPreviewTargetSlot(): boolean {
+		return this.targetSlot === this.host.getActiveThemeSlot();
+	}
+
+	private syncCollectionSelect(): void {
+		const select = this.collectionSelect;
+		if (!select) {
+			return;
+		}
+		select.innerHTML = "";
+		const addOption = (value: string, label: string): void => {
+			const option = document.createElement("option");
+			option.value = value;
+			option.textContent = label;
+			select.appendChild(option);
+		};
+		addOption(COLLECTION_FILTER_ALL, "All images");
+		addOption(COLLECTION_FILTER_FAVORITES, "Favorites");
+		for (const collection of this.host.settings.collections) {
+			addOption(collection.id, collection.name || "Untitled collection");
+		}
+		select.value = this.getCollectionFilter();
+	}
+
+	/**
+	 * Current filter, falling back to all images when the collection was deleted.
+	 */
+	private getCollectionFilter(): string {
+		const filter = this.host.settings.pickerCollectionFilter;
+		if (
+			filter === COLLECTION_FILTER_FAVORITES ||
+			findCollection(this.host.settings.collections, filter)
+		) {
+			return filter;
+		}
+		return COLLECTION_FILTER_ALL;
+	}
+
+	private filterByCollection(items: ImageItem[]): ImageItem[] {
+		const filter = this.getCollectionFilter();
+		if (filter === COLLECTION_FILTER_ALL) {
+			return items;
+		}
+		const paths =
+			filter === COLLECTION_FILTER_FAVORITES
+				? this.host.settings.favoriteImages
+				: findCollection(this.host.settings.collections, filter)?.paths ?? [];
+		const allowed = new Set(paths);
+		return items.filter((item) => allowed.has(this.normalizeRelativePath(item.relativePath)));
+	}
+
+	private showTileMenu(event: MouseEvent, tile: HTMLButtonElement, relativePath: string): void {
+		const menu = new Menu();
+		const toggle = (collectionId: string): void => {
+			void this.host.toggleImageInCollection(collectionId, relativePath).then(() => {
+				tile.classList.toggle("is-favorite", this.host.isFavoriteImage(relativePath));
+				// The tile may no longer belong to the filtered view.
+				if (this.getCollectionFilter() !== COLLECTION_FILTER_ALL) {
+					this.renderFilteredTiles();
+				}
+			});
+		};
+		const isFavorite = this.host.isFavoriteImage(relativePath);
+		menu.addItem((item) =>
+			item
+				.setTitle(isFavorite ? "Remove from favorites" : "Add to favorites")
+				.setIcon(isFavorite ? "star-off" : "star")
+				.onClick(() => toggle(COLLECTION_FILTER_FAVORITES))
+		);
+		const normalized = this.normalizeRelativePath(relativePath);
+		const collections = this.host.settings.collections;
+		if (collections.length > 0) {
+			menu.addSeparator();
+		}
+		for (const collection of collections) {
+			const name = collection.name || "Untitled collection";
+			const included = collection.paths.includes(normalized);
+			menu.addItem((item) =>
+				item
+					.setTitle(included ? `Remove from ${name}` : `Add to ${name}`)
+					.setIcon(included ? "folder-minus" : "folder-plus")
+					.onClick(() => toggle(collection.id))
+			);
+		}
+		menu.showAtMouseEvent(event);
+	}
+
+	private refreshSelectionMarker(): void {
+		// Move the highlight without re-rendering tiles when the target slot changes.
+		const relativePath = this.normalizeRelativePath(
+			this.host.getSelectedImagePath(this.targetSlot)
+		);
+		let tile: HTMLButtonElement | null = null;
+		if (this.gridEl && relativePath) {
+			for (const candidate of Array.from(
+				this.gridEl.querySelectorAll<HTMLButtonElement>(".anp-bg-picker-tile")
+			)) {
+				if (candidate.dataset.relativePath === relativePath) {
+					tile = candidate;
+					break;
+				}
+			}
+		}
+		this.setSelection(relativePath, tile);
+	}
+
+	/**
+	 * Resolve the picker's image list, honoring the same cache, whitelist and
+	 * linked-server rules as the grid. Used by rotation so both stay in sync.
+	 */
+	async getImageItems(forceRefresh = false): Promise<ImageItemsResult> {
+		const preferRemote = this.shouldPreferRemoteSource();
+		// Cache by settings so reopening the picker avoids a full scan.
+		const cacheKey = this.getCacheKey();
+		if (
+			!forceRefresh &&
+			!preferRemote &&
+			cacheKey === this.cachedKey &&
+			// Vault cache can go stale if files are deleted or moved.
+			this.isVaultCacheValid(this.cachedItems)
+		) {
+			return {items: this.cachedItems, errorMessage: this.cachedError};
+		}
+
+		const result = await this.loadImageItems();
+		this.cachedKey = cacheKey;
+		this.cachedItems = result.errorMessage ? [] : result.items;
+		this.cachedError = result.errorMessage;
+		return result;
+	}
+
 	private focusDialog(): void {
 		if (!this.dialogEl) {
 			return;
@@ -225,7 +795,7 @@ export class BackgroundPickerOverlay {
 		const folderPath = this.host.settings.imageFolderPath || "(not set)";
 		const baseUrl = this.host.settings.serverBaseUrl || "(not set)";
 		const mode = this.host.settings.useRemoteIndex ? "HTTP index" : "Vault";
-		this.infoEl.textContent = `Mode: ${mode} | Folder: ${folderPath} | Base URL: ${baseUrl}`;
+		this.infoEl.textContent = `Mode: ${mode} | Folder: ${folderPath} | Base URL: ${baseUrl} | Theme: ${this.targetSlot}`;
 	}
 
 	private updateAspectRatio(): void {
@@ -256,7 +826,7 @@ export class BackgroundPickerOverlay {
 			if (linkedInfo.whitelistEnabled) {
 				const allowedPaths = linkedInfo.whitelistFiles
 					.map((value) => this.normalizeRelativePath(value))
-					.filter((value) => this.isImagePath(value));
+					.filter((value) => isBackgroundPath(value));
 				const filteredPaths = this.filterExistingVaultRelativePaths(
 					folderPath,
 					allowedPaths
@@ -294,12 +864,15 @@ export class BackgroundPickerOverlay {
 			if (filteredPaths.length === 0) {
 				return {items: [], errorMessage: "No images found."};
 			}
-			return buildImageItemsFromRelativePaths(
-				this.app,
-				folderPath,
-				filteredPaths,
-				linkedInfo.baseUrl,
-				true
+			return applyIndexMetadata(
+				buildImageItemsFromRelativePaths(
+					this.app,
+					folderPath,
+					filteredPaths,
+					linkedInfo.baseUrl,
+					true
+				),
+				indexResult.items
 			);
 		}
 
@@ -310,12 +883,15 @@ export class BackgroundPickerOverlay {
 			});
 			if (!indexResult.errorMessage) {
 				const relativePaths = indexResult.items.map((item) => item.relativePath);
-				return buildImageItemsFromRelativePaths(
-					this.app,
-					folderPath,
-					relativePaths,
-					baseUrl,
-					true
+				return applyIndexMetadata(
+					buildImageItemsFromRelativePaths(
+						this.app,
+						folderPath,
+						relativePaths,
+						baseUrl,
+						true
+					),
+					indexResult.items
 				);
 			}
 
@@ -336,7 +912,7 @@ export class BackgroundPickerOverlay {
 		if (whitelistEnabled) {
 			const allowedPaths = whitelistInfo?.files
 				.map((value) => this.normalizeRelativePath(value))
-				.filter((value) => this.isImagePath(value)) ?? [];
+				.filter((value) => isBackgroundPath(value)) ?? [];
 			if (allowedPaths.length === 0) {
 				return {items: [], errorMessage: "No whitelisted images found."};
 			}
@@ -372,7 +948,7 @@ export class BackgroundPickerOverlay {
 				baseUrl,
 				true
 			);
-			return this.applyWhitelistFilter(remoteResult);
+			return this.applyWhitelistFilter(applyIndexMetadata(remoteResult, indexResult.items));
 		}
 
 		const fallback = await getRemoteImageItems(baseUrl, authToken);
@@ -437,94 +1013,434 @@ export class BackgroundPickerOverlay {
 		);
 	}
 
-	private isImagePath(pathValue: string): boolean {
-		const ext = pathValue.split(".").pop()?.toLowerCase();
-		if (!ext) {
-			return false;
-		}
-		return new Set([
-			"png",
-			"jpg",
-			"jpeg",
-			"webp",
-			"gif",
-			"bmp",
-			"svg",
-			"avif",
-			"tif",
-			"tiff",
-		]).has(ext);
-	}
-
 	private async renderGrid(forceRefresh = false): Promise<void> {
 		if (!this.gridEl || !this.statusEl) {
 			return;
 		}
 
-		const token = (this.renderToken += 1);
-		this.gridEl.innerHTML = "";
-		// Keep selection state so tiles can mark themselves during batch rendering.
-		this.selectedPath = this.normalizeRelativePath(this.host.settings.selectedImagePath);
-		this.selectedTile = null;
-		this.renderQueue = null;
-		this.itemCount = 0;
+		const token = this.resetGrid();
+		this.loadedItems = [];
+		this.loadMessage = "";
+		this.loadedFolders = null;
 		this.statusEl.textContent = "Loading images...";
+		if (forceRefresh) {
+			this.folderCache.clear();
+			this.cacheBust += 1;
+		}
+		const sourceKey = this.getCacheKey();
+		if (sourceKey !== this.currentFolderSourceKey) {
+			this.currentFolderSourceKey = sourceKey;
+			this.currentFolder = "";
+		}
 
-		const preferRemote = this.shouldPreferRemoteSource();
-		// Cache by settings so reopening the picker avoids a full scan.
-		const cacheKey = this.getCacheKey();
-		let result;
-		if (!forceRefresh && !preferRemote && cacheKey === this.cachedKey) {
-			// Vault cache can go stale if files are deleted or moved.
-			if (this.isVaultCacheValid(this.cachedItems)) {
-				result = {items: this.cachedItems, errorMessage: this.cachedError};
-			} else {
-				result = await this.loadImageItems();
+		if (this.host.settings.pickerFolderView === "browse" && this.canLoadRemoteFolders()) {
+			const listing = await this.loadRemoteFolder(this.currentFolder);
+			if (token !== this.renderToken) {
+				return;
+			}
+			if (listing) {
+				// Gradients have no folder, so they live at the root.
+				const gradients = this.currentFolder ? [] : this.getGradientItems();
+				this.loadedItems = this.sortLoadedItems([...gradients, ...listing.items]);
+				this.loadedFolders = listing.folders;
+				this.renderRecents(this.loadedItems);
+				this.renderFilteredTiles();
+				return;
 			}
-		} else {
-			result = await this.loadImageItems();
 		}
 
+		const result = await this.getImageItems(forceRefresh);
+
 		if (token !== this.renderToken || !this.gridEl || !this.statusEl) {
 			return;
 		}
 
-		if (result.errorMessage) {
+		// Saved gradients come first and stay usable even when the image source fails.
+		const gradientItems = this.getGradientItems();
+		if (result.errorMessage && gradientItems.length === 0) {
 			this.statusEl.textContent = result.errorMessage;
-			this.cachedKey = cacheKey;
-			this.cachedItems = [];
-			this.cachedError = result.errorMessage;
 			return;
 		}
 
-		if (result.items.length === 0) {
+		const items = [...gradientItems, ...result.items];
+		if (!result.errorMessage) {
+			// A complete list is the best evidence of what still exists, remote files included.
+			this.host.pruneBackgroundHistory(items.map((item) => item.relativePath));
+		}
+		this.renderRecents(items);
+
+		if (items.length === 0) {
 			this.statusEl.textContent = "No images found.";
-			this.cachedKey = cacheKey;
-			this.cachedItems = [];
-			this.cachedError = "";
 			return;
 		}
+		this.loadedItems = this.sortLoadedItems(items);
+		this.loadMessage = result.errorMessage;
+		this.renderFilteredTiles();
+	}
 
-		this.cachedKey = cacheKey;
-		this.cachedItems = result.items;
-		this.cachedError = "";
-		this.itemCount = result.items.length;
+	/**
+	 * Re-render the grid from the loaded items with the collection and search filters applied.
+	 * Starts a new render token so row updates for the previous filter stop.
+	 */
+	private renderFilteredTiles(): void {
+		// Nothing loaded yet (or the load failed): leave the status line alone.
+		if (!this.gridEl || !this.statusEl || (this.loadedItems.length === 0 && !this.loadedFolders)) {
+			return;
+		}
+		const token = this.resetGrid();
+		const view = this.host.settings.pickerFolderView;
+		this.renderBreadcrumb(view === "browse" ? this.currentFolder : null);
+		const inCollection = this.filterByCollection(this.loadedItems);
+		// A one-folder load can hold no images yet still list subfolders to open.
+		if (inCollection.length === 0 && !this.loadedFolders) {
+			this.searchInput?.classList.remove("is-no-match");
+			this.statusEl.textContent = "No images in this collection.";
+			return;
+		}
+		const query = this.searchInput?.value.trim() ?? "";
+		const visibleItems = filterByFuzzyQuery(
+			inCollection,
+			query,
+			(item) => [item.displayName, item.relativePath]
+		);
+		const entries = this.buildGridEntries(visibleItems, view);
+		// The status line is hidden in image-only mode, so flag the field itself too.
+		this.searchInput?.classList.toggle("is-no-match", entries.length === 0 && query.length > 0);
+		if (entries.length === 0) {
+			this.statusEl.textContent = query ? "No images match the search." : "This folder is empty.";
+			return;
+		}
 
+		// Layout is computed from the filtered entries, not the whole folder.
+		this.gridEntries = entries;
+		this.gridToken = token;
+		this.statusEl.textContent = this.loadMessage;
 		this.ensureResizeObserver();
 		this.requestGridUpdate();
-		this.startTileRender(result.items, token);
 	}
 
-	private createTile(item: ImageItem, index: number): HTMLElement {
+	private buildGridEntries(items: ImageItem[], view: PickerFolderView): GridEntry[] {
+		if (view === "browse") {
+			// Remote one-folder loads already hold only this folder; otherwise derive it.
+			const listing = this.loadedFolders
+				? {items, folders: this.loadedFolders}
+				: listFolder(items, this.currentFolder);
+			return [
+				...listing.folders.map((folder): GridEntry => ({kind: "folder", folder})),
+				...listing.items.map((item): GridEntry => ({kind: "item", item})),
+			];
+		}
+		if (view === "sections") {
+			const entries: GridEntry[] = [];
+			for (const section of groupByFolder(items)) {
+				entries.push({
+					kind: "heading",
+					label: section.folder || "Top level",
+					count: section.items.length,
+				});
+				for (const item of section.items) {
+					entries.push({kind: "item", item});
+				}
+			}
+			return entries;
+		}
+		return items.map((item) => ({kind: "item", item}));
+	}
+
+	private navigateToFolder(folder: string): void {
+		this.currentFolder = folder;
+		if (this.loadedFolders) {
+			void this.renderGrid();
+			return;
+		}
+		this.renderFilteredTiles();
+	}
+
+	/**
+	 * Show the trail for `folder`, or nothing outside browse view.
+	 */
+	private renderBreadcrumb(folder: string | null): void {
+		if (!this.breadcrumbEl) {
+			return;
+		}
+		this.breadcrumbEl.innerHTML = "";
+		if (folder === null) {
+			return;
+		}
+		const crumbs = getBreadcrumbs(folder);
+		crumbs.forEach((crumb, index) => {
+			const isCurrent = index === crumbs.length - 1;
+			const button = document.createElement("button");
+			button.type = "button";
+			button.className = "anp-bg-picker-crumb";
+			button.dataset.folderPath = crumb.path;
+			button.textContent = crumb.name || "All folders";
+			if (isCurrent) {
+				button.setAttribute("aria-current", "location");
+			}
+			this.breadcrumbEl?.appendChild(button);
+			if (!isCurrent) {
+				const separator = document.createElement("span");
+				separator.className = "anp-bg-picker-crumb-separator";
+				separator.textContent = "/";
+				this.breadcrumbEl?.appendChild(separator);
+			}
+		});
+	}
+
+	/**
+	 * One-folder loads need the JSON index of a plain HTTP source. Linked servers and vault
+	 * folders keep deriving folders from the recursive list.
+	 */
+	private canLoadRemoteFolders(): boolean {
+		if (this.host.getLinkedServerInfo?.()) {
+			return false;
+		}
+		return this.shouldPreferRemoteSource();
+	}
+
+	/**
+	 * Load `folder` with `recursive=0`. Returns null when the index is unavailable so the
+	 * caller can fall back to the recursive list.
+	 */
+	private async loadRemoteFolder(folder: string): Promise<FolderListing | null> {
+		const cacheKey = `${this.getCacheKey()}|${folder}`;
+		const cached = this.folderCache.get(cacheKey);
+		if (cached) {
+			return cached;
+		}
+		const baseUrl = this.host.settings.serverBaseUrl.trim();
+		const indexResult = await getRemoteIndexItems(baseUrl, {
+			authToken: this.host.settings.authToken.trim(),
+			path: folder,
+			recursive: false,
+		});
+		if (indexResult.errorMessage) {
+			return null;
+		}
+		// Servers may answer with paths relative to the requested folder; anchor them at the root.
+		const prefix = folder ? `${folder}/` : "";
+		const anchor = (value: string): string => {
+			const normalized = this.normalizeRelativePath(value);
+			return normalized.startsWith(prefix) ? normalized : `${prefix}${normalized}`;
+		};
+		const indexItems = indexResult.items.map((item) => ({
+			...item,
+			relativePath: anchor(item.relativePath),
+		}));
+		const result = this.applyWhitelistFilter(
+			applyIndexMetadata(
+				buildImageItemsFromRelativePaths(
+					this.app,
+					this.host.settings.imageFolderPath,
+					indexItems.map((item) => item.relativePath),
+					baseUrl,
+					true
+				),
+				indexItems
+			)
+		);
+		let folders: FolderEntry[];
+		if (indexResult.folders) {
+			folders = indexResult.folders
+				.map((value) => anchor(value))
+				.sort((left, right) => left.localeCompare(right))
+				.map((path) => ({path, name: getFolderName(path), count: 0}));
+		} else {
+			// The index does not list subfolders; take them from the (cached) recursive list.
+			const all = await this.getImageItems();
+			folders = listFolder(all.items, folder).folders;
+		}
+		const listing = {items: result.items, folders};
+		this.folderCache.set(cacheKey, listing);
+		return listing;
+	}
+
+	/**
+	 * Sort images by the saved mode; gradients stay in front since they have no file metadata.
+	 * Done once per load so "random" does not reshuffle on every keystroke.
+	 */
+	private sortLoadedItems(items: ImageItem[]): ImageItem[] {
+		const gradients = items.filter((item) => isGradientReference(item.relativePath));
+		const images = items.filter((item) => !isGradientReference(item.relativePath));
+		return [...gradients, ...sortImageItems(images, this.host.settings.pickerSortMode)];
+	}
+
+	private resetGrid(): number {
+		const token = (this.renderToken += 1);
+		for (const row of this.mountedRows.values()) {
+			row.remove();
+		}
+		this.mountedRows.clear();
+		this.sizerEl?.style.removeProperty("--anp-bg-picker-grid-height");
+		if (this.gridEl) {
+			this.gridEl.scrollTop = 0;
+		}
+		// Keep selection state so tiles can mark themselves as their rows mount.
+		this.selectedPath = this.normalizeRelativePath(
+			this.host.getSelectedImagePath(this.targetSlot)
+		);
+		this.selectedTile = null;
+		this.activeIndex = -1;
+		this.gridEntries = [];
+		this.gridRows = [];
+		return token;
+	}
+
+	/**
+	 * Fill the strip from the history itself; `items` only lends names and metadata, since a
+	 * one-folder load does not hold recents from other folders.
+	 */
+	private renderRecents(items: ImageItem[]): void {
+		if (!this.recentsEl) {
+			return;
+		}
+		this.recentsEl.innerHTML = "";
+		const itemsByPath = new Map(
+			[...this.getGradientItems(), ...items].map((item) => [
+				this.normalizeRelativePath(item.relativePath),
+				item,
+			])
+		);
+		const recentItems = this.host
+			.getBackgroundHistory()
+			.map((path) => itemsByPath.get(path) ?? this.createHistoryItem(path))
+			.filter((item): item is ImageItem => Boolean(item))
+			.slice(0, RECENT_STRIP_LIMIT);
+		for (const item of recentItems) {
+			this.recentsEl.appendChild(this.createRecentTile(item));
+		}
+	}
+
+	/**
+	 * Build an item for a history path outside the loaded list, or null when it no longer
+	 * resolves. Gradients are always in the lookup, so only images reach this.
+	 */
+	private createHistoryItem(relativePath: string): ImageItem | null {
+		if (isGradientReference(relativePath)) {
+			return null;
+		}
+		const url = this.host.getImageUrlForPath(relativePath);
+		if (!url) {
+			return null;
+		}
+		const segments = relativePath.split("/").filter(Boolean);
+		return {
+			file: null,
+			relativePath,
+			url,
+			displayName: segments[segments.length - 1] ?? relativePath,
+		};
+	}
+
+	private createRecentTile(item: ImageItem): HTMLButtonElement {
+		const button = document.createElement("button");
+		button.type = "button";
+		button.className = "anp-bg-picker-recent";
+		button.dataset.relativePath = item.relativePath;
+		button.setAttribute("aria-label", item.displayName);
+		button.title = item.displayName;
+		if (isGradientReference(item.relativePath)) {
+			button.appendChild(this.createGradientThumb(item));
+			return button;
+		}
+		const thumb = isVideoPath(item.relativePath)
+			? document.createElement("video")
+			: document.createElement("img");
+		thumb.className = "anp-bg-picker-thumb";
+		if (thumb instanceof HTMLVideoElement) {
+			thumb.muted = true;
+			thumb.preload = "metadata";
+			thumb.src = `${this.buildTileImageUrl(item.url)}#t=0.1`;
+		} else {
+			thumb.decoding = "async";
+			thumb.alt = item.displayName;
+			thumb.src = this.buildTileImageUrl(item.url);
+		}
+		thumb.addEventListener("error", () => button.remove());
+		button.appendChild(thumb);
+		return button;
+	}
+
+	private getGradientItems(): ImageItem[] {
+		return this.host.settings.gradients.map((gradient) => ({
+			file: null,
+			relativePath: getGradientReference(gradient),
+			url: "",
+			displayName: gradient.name || "Gradient",
+		}));
+	}
+
+	private createEntryElement(entry: GridEntry, index: number): HTMLElement {
+		if (entry.kind === "heading") {
+			const heading = document.createElement("div");
+			heading.className = "anp-bg-picker-section";
+			// Labels its own row of the grid.
+			heading.setAttribute("role", "rowheader");
+			heading.textContent = `${entry.label} (${entry.count})`;
+			return heading;
+		}
+		const tile =
+			entry.kind === "folder"
+				? this.createFolderTile(entry.folder)
+				: this.createTile(entry.item, index);
+		tile.dataset.entryIndex = String(index);
+		tile.tabIndex = index === this.activeIndex ? 0 : -1;
+		return tile;
+	}
+
+	private createFolderTile(folder: FolderEntry): HTMLButtonElement {
+		const tile = document.createElement("button");
+		tile.type = "button";
+		tile.className = "anp-bg-picker-tile is-folder";
+		tile.dataset.folderPath = folder.path;
+		tile.setAttribute("role", "gridcell");
+		const icon = document.createElement("div");
+		icon.className = "anp-bg-picker-thumb anp-bg-picker-folder-icon";
+		setIcon(icon, "folder");
+		const name = document.createElement("div");
+		name.className = "anp-bg-picker-name";
+		name.textContent = folder.count > 0 ? `${folder.name} (${folder.count})` : folder.name;
+		tile.setAttribute("aria-label", `Open folder ${folder.name}`);
+		tile.appendChild(icon);
+		tile.appendChild(name);
+		return tile;
+	}
+
+	private createTile(item: ImageItem, index: number): HTMLButtonElement {
 		const tile = document.createElement("button");
 		tile.type = "button";
 		tile.className = "anp-bg-picker-tile";
 		tile.dataset.relativePath = item.relativePath;
-		if (item.relativePath === this.selectedPath) {
+		tile.setAttribute("role", "gridcell");
+		if (this.host.isFavoriteImage(item.relativePath)) {
+			tile.classList.add("is-favorite");
+		}
+		const isSelected = item.relativePath === this.selectedPath;
+		tile.setAttribute("aria-selected", String(isSelected));
+		if (isSelected) {
 			tile.classList.add("is-selected");
 			this.selectedTile = tile;
 		}
 
+		const name = document.createElement("div");
+		name.className = "anp-bg-picker-name";
+		name.textContent = item.displayName;
+
+		if (isGradientReference(item.relativePath)) {
+			tile.classList.add("is-gradient");
+			tile.appendChild(this.createGradientThumb(item));
+			tile.appendChild(name);
+			return tile;
+		}
+
+		if (isVideoPath(item.relativePath)) {
+			tile.classList.add("is-video");
+			tile.appendChild(this.createVideoThumb(item));
+			tile.appendChild(name);
+			return tile;
+		}
+
 		const img = document.createElement("img");
 		img.className = "anp-bg-picker-thumb";
 		img.decoding = "async";
@@ -538,19 +1454,41 @@ export class BackgroundPickerOverlay {
 		img.src = this.buildTileImageUrl(item.url);
 		// Remove tiles that fail to load to avoid showing inaccessible files.
 		img.addEventListener("error", () => {
-			this.handleImageError(tile, img);
+			this.handleImageError(item);
 		});
 
-		const name = document.createElement("div");
-		name.className = "anp-bg-picker-name";
-		name.textContent = item.displayName;
-
 		tile.appendChild(img);
 		tile.appendChild(name);
 
 		return tile;
 	}
 
+	private createGradientThumb(item: ImageItem): HTMLDivElement {
+		const thumb = document.createElement("div");
+		thumb.className = "anp-bg-picker-thumb anp-bg-picker-gradient";
+		thumb.setAttribute("aria-label", item.displayName);
+		const gradient = findGradient(this.host.settings.gradients, item.relativePath);
+		if (gradient) {
+			thumb.style.setProperty("--anp-gradient-preview", buildGradientCss(gradient));
+		}
+		return thumb;
+	}
+
+	private createVideoThumb(item: ImageItem): HTMLVideoElement {
+		const video = document.createElement("video");
+		video.className = "anp-bg-picker-thumb";
+		video.muted = true;
+		video.playsInline = true;
+		// Metadata plus a tiny time offset makes the browser paint a poster frame.
+		video.preload = "metadata";
+		video.setAttribute("aria-label", item.displayName);
+		video.src = `${this.buildTileImageUrl(item.url)}#t=0.1`;
+		video.addEventListener("error", () => {
+			this.handleImageError(item);
+		});
+		return video;
+	}
+
 	private filterExistingVaultRelativePaths(folderPath: string, relativePaths: string[]): string[] {
 		const resolvedFolder = resolveVaultFolderPath(this.app, folderPath);
 		if (resolvedFolder.errorMessage) {
@@ -588,7 +1526,7 @@ export class BackgroundPickerOverlay {
 		}
 		try {
 			const parsed = new URL(url);
-			parsed.searchParams.set("anp_cache_bust", String(this.renderToken));
+			parsed.searchParams.set("anp_cache_bust", String(this.cacheBust));
 			return parsed.toString();
 		} catch {
 			return url;
@@ -603,99 +1541,372 @@ export class BackgroundPickerOverlay {
 		);
 	}
 
-	private handleImageError(tile: HTMLButtonElement, img: HTMLImageElement): void {
-		if (!this.gridEl || !tile.isConnected) {
+	private handleImageError(item: ImageItem): void {
+		// Forget it for good: filter, sort and tile size changes rebuild from the loaded items.
+		this.loadedItems = this.loadedItems.filter((loaded) => loaded !== item);
+		// Look the entry up by identity: indexes shift as broken tiles are dropped.
+		let index = this.gridEntries.findIndex(
+			(entry) => entry.kind === "item" && entry.item === item
+		);
+		if (index === -1) {
 			return;
 		}
-		tile.remove();
-		this.itemCount = Math.max(this.itemCount - 1, 0);
+		const removed = this.gridEntries[index];
+		const active = this.gridEntries[this.activeIndex];
+		this.gridEntries.splice(index, 1);
+		const headingIndex = this.findSectionHeadingIndex(index);
+		const heading = this.gridEntries[headingIndex];
+		if (heading?.kind === "heading") {
+			heading.count -= 1;
+			// A section whose last tile failed goes away with its heading.
+			if (heading.count <= 0) {
+				this.gridEntries.splice(headingIndex, 1);
+				index -= 1;
+			}
+		}
+		this.activeIndex =
+			active && active !== removed
+				? this.gridEntries.indexOf(active)
+				: this.findNearestTileIndex(index);
+		// Every row after the removed tile shifts; the next layout pass rebuilds them.
 		this.requestGridUpdate();
-		if (this.statusEl && this.itemCount === 0) {
+		if (this.statusEl && !this.gridEntries.some((entry) => entry.kind !== "heading")) {
 			this.statusEl.textContent = "No images found.";
 		}
 	}
 
+	/**
+	 * Index of the heading that owns the entry at `index`, or -1 outside section view.
+	 */
+	private findSectionHeadingIndex(index: number): number {
+		for (let current = index - 1; current >= 0; current -= 1) {
+			if (this.gridEntries[current]?.kind === "heading") {
+				return current;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * The first tile at or after `index`, else the last one before it; -1 when none is left.
+	 */
+	private findNearestTileIndex(index: number): number {
+		for (let current = index; current < this.gridEntries.length; current += 1) {
+			if (this.gridEntries[current]?.kind !== "heading") {
+				return current;
+			}
+		}
+		for (let current = Math.min(index, this.gridEntries.length) - 1; current >= 0; current -= 1) {
+			if (this.gridEntries[current]?.kind !== "heading") {
+				return current;
+			}
+		}
+		return -1;
+	}
+
 	private setSelection(relativePath: string, tile: HTMLButtonElement | null): void {
 		if (this.selectedTile) {
 			this.selectedTile.classList.remove("is-selected");
+			this.selectedTile.setAttribute("aria-selected", "false");
 		}
 		this.selectedTile = tile;
 		this.selectedPath = relativePath;
 		if (this.selectedTile) {
 			this.selectedTile.classList.add("is-selected");
+			this.selectedTile.setAttribute("aria-selected", "true");
 		}
 	}
 
-	private async handleTileSelection(
-		tile: HTMLButtonElement,
-		relativePath: string
-	): Promise<void> {
-		await this.host.setBackgroundByRelativePath(relativePath);
-		this.setSelection(relativePath, tile);
-		new Notice("Background updated.");
-		this.close();
+	/**
+	 * Apply `relativePath` without saving it and fade the overlay so the result is visible.
+	 * Folder tiles have no path and are ignored.
+	 */
+	private showPreview(relativePath: string): void {
+		if (
+			!this.overlayEl ||
+			!relativePath ||
+			relativePath === this.previewPath ||
+			!this.canPreviewTargetSlot()
+		) {
+			return;
+		}
+		this.previewPath = relativePath;
+		this.overlayEl.classList.add("is-previewing");
+		this.host.previewBackground(relativePath, this.targetSlot);
 	}
 
-	private startTileRender(items: ImageItem[], token: number): void {
-		if (!this.gridEl || !this.statusEl) {
+	private endPreview(): void {
+		this.schedulePreview.cancel();
+		if (this.previewPath === null) {
 			return;
 		}
-		this.renderQueue = {items, index: 0, token};
-		this.statusEl.textContent = `Loading 0 / ${items.length}...`;
-		this.scheduleTileRender();
+		this.previewPath = null;
+		this.overlayEl?.classList.remove("is-previewing");
+		this.host.endBackgroundPreview();
 	}
 
-	private scheduleTileRender(): void {
-		if (!this.renderQueue) {
+	/**
+	 * Move the roving tabindex to `index` among the mounted tiles.
+	 */
+	private setActiveIndex(index: number): void {
+		if (index === this.activeIndex) {
 			return;
 		}
-		const requestIdle = (
-			window as Window & {
-				requestIdleCallback?: (callback: () => void, options?: {timeout: number}) => number;
-			}
-		).requestIdleCallback;
-		// Render in idle slices so the UI stays responsive with many tiles.
-		if (requestIdle) {
-			requestIdle(() => this.renderTileBatch(), {timeout: 120});
+		this.getMountedTile(this.activeIndex)?.setAttribute("tabindex", "-1");
+		this.activeIndex = index;
+		this.getMountedTile(index)?.setAttribute("tabindex", "0");
+	}
+
+	/**
+	 * Scroll `index` into view, mount its row and focus it.
+	 */
+	private focusEntry(index: number): void {
+		const rowIndex = findRowIndex(this.gridRows, index);
+		const row = this.gridRows[rowIndex];
+		if (!this.gridEl || !row) {
 			return;
 		}
-		window.setTimeout(() => this.renderTileBatch(), 16);
+		this.setActiveIndex(index);
+		const top = row.top;
+		const bottom = row.top + row.height;
+		const viewTop = this.gridEl.scrollTop;
+		const viewHeight = this.getViewportHeight();
+		if (top < viewTop) {
+			this.gridEl.scrollTop = top;
+		} else if (bottom > viewTop + viewHeight) {
+			this.gridEl.scrollTop = bottom - viewHeight;
+		}
+		this.renderVisibleRows();
+		this.getMountedTile(index)?.focus({preventScroll: true});
 	}
 
-	private renderTileBatch(): void {
-		if (!this.gridEl || !this.statusEl || !this.renderQueue) {
+	private getMountedTile(index: number): HTMLButtonElement | null {
+		if (index < 0) {
+			return null;
+		}
+		const row = this.mountedRows.get(findRowIndex(this.gridRows, index));
+		return row?.querySelector<HTMLButtonElement>(`[data-entry-index="${index}"]`) ?? null;
+	}
+
+	/**
+	 * Give the roving tabindex to the selected tile, or the first one, when nothing in the
+	 * grid holds it yet.
+	 */
+	private ensureActiveIndex(): void {
+		const current = this.gridEntries[this.activeIndex];
+		if (current && current.kind !== "heading") {
 			return;
 		}
+		const selected = this.gridEntries.findIndex(
+			(entry) =>
+				entry.kind === "item" &&
+				this.normalizeRelativePath(entry.item.relativePath) === this.selectedPath
+		);
+		this.activeIndex =
+			selected !== -1 ? selected : this.gridEntries.findIndex((entry) => entry.kind !== "heading");
+	}
+
+	/**
+	 * Returns the entry `key` moves to, null at the edge of the grid, or undefined when the
+	 * key is not a navigation key.
+	 */
+	private findEntryForKey(index: number, key: string, ctrlKey: boolean): number | null | undefined {
+		const rowIndex = findRowIndex(this.gridRows, index);
+		const row = this.gridRows[rowIndex];
+		if (!row) {
+			return undefined;
+		}
+		const tiles = this.gridEntries
+			.map((entry, entryIndex) => (entry.kind === "heading" ? -1 : entryIndex))
+			.filter((entryIndex) => entryIndex !== -1);
+		const position = tiles.indexOf(index);
+		switch (key) {
+			case "ArrowLeft":
+				return tiles[position - 1] ?? null;
+			case "ArrowRight":
+				return tiles[position + 1] ?? null;
+			case "ArrowUp":
+				return this.findEntryInNextRow(rowIndex, index - row.start, -1, 1);
+			case "ArrowDown":
+				return this.findEntryInNextRow(rowIndex, index - row.start, 1, 1);
+			case "PageUp":
+				return this.findEntryInNextRow(rowIndex, index - row.start, -1, this.getRowsPerPage());
+			case "PageDown":
+				return this.findEntryInNextRow(rowIndex, index - row.start, 1, this.getRowsPerPage());
+			case "Home":
+				return ctrlKey ? tiles[0] ?? null : row.start;
+			case "End":
+				return ctrlKey ? tiles[tiles.length - 1] ?? null : row.end - 1;
+			default:
+				return undefined;
+		}
+	}
 
-		const {items, token} = this.renderQueue;
-		if (token !== this.renderToken) {
+	/**
+	 * Move `steps` tile rows up or down, keeping the column and skipping section headings.
+	 * Short rows (the last row of a section) clamp to their last tile.
+	 */
+	private findEntryInNextRow(
+		rowIndex: number,
+		column: number,
+		direction: 1 | -1,
+		steps: number
+	): number | null {
+		let target: GridRow | null = null;
+		let remaining = steps;
+		for (
+			let index = rowIndex + direction;
+			index >= 0 && index < this.gridRows.length && remaining > 0;
+			index += direction
+		) {
+			const row = this.gridRows[index];
+			if (!row || row.isHeading) {
+				continue;
+			}
+			target = row;
+			remaining -= 1;
+		}
+		if (!target) {
+			return null;
+		}
+		return Math.min(target.start + column, target.end - 1);
+	}
+
+	private getRowsPerPage(): number {
+		const row = this.gridRows.find((candidate) => !candidate.isHeading);
+		if (!row) {
+			return 1;
+		}
+		const gap = this.getGridGap();
+		return Math.max(Math.floor(this.getViewportHeight() / (row.height + gap)), 1);
+	}
+
+	private async handleTileSelection(
+		tile: HTMLButtonElement | null,
+		relativePath: string
+	): Promise<void> {
+		// The host clears its preview state when it saves, so close() has nothing to revert.
+		this.schedulePreview.cancel();
+		this.previewPath = null;
+		await this.host.setBackgroundByRelativePath(relativePath, this.targetSlot);
+		this.setSelection(relativePath, tile);
+		new Notice("Background updated.");
+		this.close();
+	}
+
+	private requestRowRender(): void {
+		if (this.pendingRowRender) {
+			return;
+		}
+		this.pendingRowRender = true;
+		requestAnimationFrame(() => {
+			this.pendingRowRender = false;
+			this.renderVisibleRows();
+		});
+	}
+
+	/**
+	 * Mount the rows near the viewport and drop the rest. The active tile's row stays
+	 * mounted so keyboard focus survives scrolling it out of view.
+	 */
+	private renderVisibleRows(): void {
+		if (!this.gridEl || !this.sizerEl || this.gridToken !== this.renderToken) {
 			return;
 		}
+		const viewTop = this.gridEl.scrollTop;
+		const {first, last} = findVisibleRows(
+			this.gridRows,
+			viewTop,
+			viewTop + this.getViewportHeight()
+		);
+		const wanted = new Set<number>();
+		for (
+			let index = Math.max(first - OVERSCAN_ROWS, 0);
+			index <= Math.min(last + OVERSCAN_ROWS, this.gridRows.length - 1);
+			index += 1
+		) {
+			wanted.add(index);
+		}
+		const activeRow = findRowIndex(this.gridRows, this.activeIndex);
+		if (activeRow !== -1) {
+			wanted.add(activeRow);
+		}
 
+		for (const [index, rowEl] of this.mountedRows) {
+			if (wanted.has(index)) {
+				continue;
+			}
+			if (this.selectedTile && rowEl.contains(this.selectedTile)) {
+				this.selectedTile = null;
+			}
+			rowEl.remove();
+			this.mountedRows.delete(index);
+		}
 		const fragment = document.createDocumentFragment();
-		const batchSize = 24;
-		let rendered = 0;
+		for (const index of wanted) {
+			const row = this.gridRows[index];
+			if (!row || this.mountedRows.has(index)) {
+				continue;
+			}
+			const rowEl = this.createRow(row, index);
+			this.mountedRows.set(index, rowEl);
+			fragment.appendChild(rowEl);
+		}
+		this.sizerEl.appendChild(fragment);
+	}
 
-		while (rendered < batchSize && this.renderQueue.index < items.length) {
-			const item = items[this.renderQueue.index];
-			this.renderQueue.index += 1;
-			if (!item) {
+	private createRow(row: GridRow, rowIndex: number): HTMLDivElement {
+		const rowEl = document.createElement("div");
+		rowEl.className = "anp-bg-picker-row";
+		rowEl.classList.toggle("is-heading", row.isHeading);
+		rowEl.setAttribute("role", "row");
+		rowEl.setAttribute("aria-rowindex", String(rowIndex + 1));
+		rowEl.style.setProperty("--anp-bg-picker-row-top", `${row.top}px`);
+		for (let index = row.start; index < row.end; index += 1) {
+			const entry = this.gridEntries[index];
+			if (!entry) {
 				continue;
 			}
-			fragment.appendChild(this.createTile(item, this.renderQueue.index - 1));
-			rendered += 1;
+			const element = this.createEntryElement(entry, index);
+			element.setAttribute("aria-colindex", String(index - row.start + 1));
+			rowEl.appendChild(element);
 		}
+		return rowEl;
+	}
 
-		this.gridEl.appendChild(fragment);
+	/**
+	 * Unmount every row and mount them again from the current entries and layout, keeping
+	 * keyboard focus on the active tile.
+	 */
+	private remountRows(): void {
+		const hadFocus = Boolean(this.gridEl?.contains(document.activeElement));
+		for (const rowEl of this.mountedRows.values()) {
+			rowEl.remove();
+		}
+		this.mountedRows.clear();
+		this.selectedTile = null;
+		this.renderVisibleRows();
+		if (hadFocus) {
+			this.getMountedTile(this.activeIndex)?.focus({preventScroll: true});
+		}
+	}
 
-		if (this.renderQueue.index < items.length) {
-			this.statusEl.textContent = `Loading ${this.renderQueue.index} / ${items.length}...`;
-			this.scheduleTileRender();
-			return;
+	private getViewportHeight(): number {
+		if (!this.gridEl) {
+			return 0;
 		}
+		const styles = getComputedStyle(this.gridEl);
+		const paddingY =
+			(this.parsePixelValue(styles.paddingTop) ?? 0) +
+			(this.parsePixelValue(styles.paddingBottom) ?? 0);
+		return Math.max(this.gridEl.clientHeight - paddingY, 0);
+	}
 
-		this.statusEl.textContent = "";
-		this.renderQueue = null;
+	private getGridGap(): number {
+		if (!this.gridEl) {
+			return 12;
+		}
+		return this.parsePixelValue(getComputedStyle(this.gridEl).rowGap) ?? 12;
 	}
 
 	private getCacheKey(): string {
@@ -740,12 +1951,14 @@ export class BackgroundPickerOverlay {
 	}
 
 	private updateGridLayout(): void {
-		if (!this.gridEl || this.itemCount === 0) {
+		if (!this.gridEl || !this.sizerEl || this.gridToken !== this.renderToken) {
 			return;
 		}
-
-		const rect = this.gridEl.getBoundingClientRect();
-		if (rect.width <= 0 || rect.height <= 0) {
+		if (this.gridEntries.length === 0) {
+			// The last tile failed to load; drop the rows still showing it.
+			this.gridRows = [];
+			this.sizerEl.style.removeProperty("--anp-bg-picker-grid-height");
+			this.remountRows();
 			return;
 		}
 
@@ -753,30 +1966,76 @@ export class BackgroundPickerOverlay {
 		const paddingX =
 			(this.parsePixelValue(styles.paddingLeft) ?? 0) +
 			(this.parsePixelValue(styles.paddingRight) ?? 0);
-		const paddingY =
-			(this.parsePixelValue(styles.paddingTop) ?? 0) +
-			(this.parsePixelValue(styles.paddingBottom) ?? 0);
-		const contentWidth = rect.width - paddingX;
-		const contentHeight = rect.height - paddingY;
+		// clientWidth leaves out the scrollbar once the grid scrolls.
+		const contentWidth = this.gridEl.clientWidth - paddingX;
+		const contentHeight = this.getViewportHeight();
 		if (contentWidth <= 0 || contentHeight <= 0) {
 			return;
 		}
-		const gap = this.parsePixelValue(styles.gap) ?? 12;
+		const gap = this.getGridGap();
 		const aspect = Math.max(window.innerWidth / Math.max(window.innerHeight, 1), 0.1);
-		const layout = this.findBestGridLayout(
-			this.itemCount,
-			contentWidth,
-			contentHeight,
-			aspect,
+		const headings = this.gridEntries.map((entry) => entry.kind === "heading");
+		const tileWidth =
+			PICKER_TILE_SIZES.find((size) => size.value === this.host.settings.pickerTileSize)
+				?.width ?? 0;
+		const layout =
+			tileWidth > 0
+				? getFixedGridLayout(contentWidth, tileWidth, aspect, gap)
+				: this.findBestGridLayout(
+					this.getSectionSizes(headings),
+					headings.filter(Boolean).length,
+					contentWidth,
+					contentHeight,
+					aspect,
+					gap
+				);
+
+		const {rows, height} = buildGridRows(
+			headings,
+			layout.columns,
+			layout.rowHeight,
+			SECTION_HEADING_HEIGHT,
 			gap
 		);
-
+		this.gridRows = rows;
+		this.gridColumns = layout.columns;
 		this.gridEl.style.setProperty("--anp-bg-picker-columns", `${layout.columns}`);
 		this.gridEl.style.setProperty("--anp-bg-picker-row-height", `${layout.rowHeight}px`);
+		this.gridEl.setAttribute("aria-colcount", String(layout.columns));
+		this.gridEl.setAttribute("aria-rowcount", String(rows.length));
+		this.sizerEl.style.setProperty("--anp-bg-picker-grid-height", `${height}px`);
+		this.ensureActiveIndex();
+		// Entry ranges per row change with the column count, so every row is rebuilt.
+		this.remountRows();
+	}
+
+	/**
+	 * Tile count per section, split at the headings; a single group without sections.
+	 */
+	private getSectionSizes(headings: boolean[]): number[] {
+		const sizes: number[] = [];
+		let size = 0;
+		for (const isHeading of headings) {
+			if (!isHeading) {
+				size += 1;
+				continue;
+			}
+			if (size > 0) {
+				sizes.push(size);
+			}
+			size = 0;
+		}
+		sizes.push(size);
+		return sizes;
 	}
 
+	/**
+	 * `groups` holds the tile count per section. Every section starts a new row below its
+	 * heading, which is why the rows are summed per group.
+	 */
 	private findBestGridLayout(
-		count: number,
+		groups: number[],
+		headingRows: number,
 		width: number,
 		height: number,
 		aspect: number,
@@ -785,19 +2044,22 @@ export class BackgroundPickerOverlay {
 		let bestColumns = 1;
 		let bestRowHeight = 0;
 		let bestArea = 0;
+		const count = groups.reduce((total, size) => total + size, 0);
+		const headingHeight = headingRows * SECTION_HEADING_HEIGHT;
 
 		for (let columns = 1; columns <= count; columns += 1) {
-			const rows = Math.ceil(count / columns);
+			const tileRows = groups.reduce((total, size) => total + Math.ceil(size / columns), 0);
+			const rows = tileRows + headingRows;
 			const totalGapWidth = gap * Math.max(columns - 1, 0);
 			const totalGapHeight = gap * Math.max(rows - 1, 0);
 			const availableWidth = width - totalGapWidth;
-			const availableHeight = height - totalGapHeight;
+			const availableHeight = height - totalGapHeight - headingHeight;
 			if (availableWidth <= 0 || availableHeight <= 0) {
 				continue;
 			}
 
 			const maxTileWidth = availableWidth / columns;
-			const maxTileHeight = availableHeight / rows;
+			const maxTileHeight = availableHeight / Math.max(tileRows, 1);
 			const tileHeight = Math.min(maxTileHeight, maxTileWidth / aspect);
 			const tileWidth = tileHeight * aspect;
 			if (tileHeight <= 0 || tileWidth <= 0) {
@@ -813,7 +2075,7 @@ export class BackgroundPickerOverlay {
 		}
 
 		if (bestRowHeight === 0) {
-			bestRowHeight = Math.max((height - gap * (count - 1)) / count, 1);
+			bestRowHeight = Math.max((height - headingHeight - gap * (count - 1)) / count, 1);
 		}
 
 		return {columns: bestColumns, rowHeight: bestRowHeight};
@@ -0,0 +1,121 @@
+/* src/ui/eyedropper-modal.ts
+ * Modal that shows the current background with a magnifier for picking a pixel color.
+ * Why: theme colors usually come from the wallpaper; this avoids guessing values by eye.
+ * Related: src/settings.ts, src/utils/image-utils.ts */
+import {App, Modal} from "obsidian";
+import {formatHexColor, RgbaColor} from "../utils/color-utils";
+
+// Pixels shown around the cursor in the magnifier (odd so one pixel sits in the center).
+const LOUPE_PIXELS = 11;
+const LOUPE_ZOOM = 12;
+
+export class EyedropperModal extends Modal {
+	private readonly image: HTMLImageElement;
+	private readonly onPick: (color: RgbaColor | null) => void;
+	private picked = false;
+
+	constructor(app: App, image: HTMLImageElement, onPick: (color: RgbaColor | null) => void) {
+		super(app);
+		this.image = image;
+		this.onPick = onPick;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("anp-eyedropper-modal");
+		this.titleEl.setText("Pick a color from the background");
+		const {contentEl} = this;
+		contentEl.empty();
+
+		const stage = contentEl.createDiv({cls: "anp-eyedropper-stage"});
+		const canvas = stage.createEl("canvas", {cls: "anp-eyedropper-canvas"});
+		const loupe = stage.createEl("canvas", {cls: "anp-eyedropper-loupe anp-is-hidden"});
+		const footer = contentEl.createDiv({cls: "anp-eyedropper-footer"});
+		const swatch = footer.createSpan({cls: "anp-eyedropper-swatch"});
+		const label = footer.createSpan({
+			cls: "anp-eyedropper-label",
+			text: "Move over the image and click to pick.",
+		});
+
+		// Draw at natural size (capped) so every pixel can be sampled; CSS scales it to fit.
+		const scale = Math.min(1, 2048 / Math.max(this.image.naturalWidth, this.image.naturalHeight, 1));
+		canvas.width = Math.max(1, Math.round(this.image.naturalWidth * scale));
+		canvas.height = Math.max(1, Math.round(this.image.naturalHeight * scale));
+		const context = canvas.getContext("2d", {willReadFrequently: true});
+		const loupeContext = loupe.getContext("2d");
+		loupe.width = LOUPE_PIXELS * LOUPE_ZOOM;
+		loupe.height = LOUPE_PIXELS * LOUPE_ZOOM;
+		if (!context || !loupeContext) {
+			label.setText("Canvas is not available.");
+			return;
+		}
+		context.drawImage(this.image, 0, 0, canvas.width, canvas.height);
+		loupeContext.imageSmoothingEnabled = false;
+
+		const readPixel = (event: MouseEvent): {x: number; y: number; color: RgbaColor} | null => {
+			const rect = canvas.getBoundingClientRect();
+			if (rect.width <= 0 || rect.height <= 0) {
+				return null;
+			}
+			const x = Math.floor(((event.clientX - rect.left) / rect.width) * canvas.width);
+			const y = Math.floor(((event.clientY - rect.top) / rect.height) * canvas.height);
+			if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) {
+				return null;
+			}
+			try {
+				const [r = 0, g = 0, b = 0] = context.getImageData(x, y, 1, 1).data;
+				return {x, y, color: {r, g, b, a: 1}};
+			} catch {
+				return null;
+			}
+		};
+
+		canvas.addEventListener("mousemove", (event) => {
+			const sample = readPixel(event);
+			if (!sample) {
+				loupe.addClass("anp-is-hidden");
+				return;
+			}
+			const half = Math.floor(LOUPE_PIXELS / 2);
+			loupeContext.clearRect(0, 0, loupe.width, loupe.height);
+			loupeContext.drawImage(
+				canvas,
+				sample.x - half,
+				sample.y - half,
+				LOUPE_PIXELS,
+				LOUPE_PIXELS,
+				0,
+				0,
+				loupe.width,
+				loupe.height
+			);
+			// Outline the pixel that a click would pick.
+			loupeContext.strokeStyle = "rgba(255, 255, 255, 0.9)";
+			loupeContext.strokeRect(half * LOUPE_ZOOM, half * LOUPE_ZOOM, LOUPE_ZOOM, LOUPE_ZOOM);
+			const stageRect = stage.getBoundingClientRect();
+			loupe.style.setProperty("--anp-loupe-x", `${event.clientX - stageRect.left}px`);
+			loupe.style.setProperty("--anp-loupe-y", `${event.clientY - stageRect.top}px`);
+			loupe.removeClass("anp-is-hidden");
+			const hex = formatHexColor(sample.color);
+			swatch.style.setProperty("--anp-swatch-color", hex);
+			label.setText(hex);
+		});
+		canvas.addEventListener("mouseleave", () => loupe.addClass("anp-is-hidden"));
+		canvas.addEventListener("click", (event) => {
+			const sample = readPixel(event);
+			if (!sample) {
+				return;
+			}
+			this.picked = true;
+			this.onPick(sample.color);
+			this.close();
+		});
+	}
+
+	onClose(): void {
+		// Canvas listeners go away with the content.
+		this.contentEl.empty();
+		if (!this.picked) {
+			this.onPick(null);
+		}
+	}
+}
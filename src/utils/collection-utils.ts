@@ -0,0 +1,85 @@
+/* src/utils/collection-utils.ts
+ * Favorites and named image collections used to filter the picker.
+ * Why: large folders are easier to browse when images can be grouped by mood or use.
+ * Related: src/main.ts, src/settings.ts, src/ui/background-picker-overlay.ts */
+import {normalizePlaylistPath} from "./rotation-utils";
+
+export interface ImageCollection {
+	// Stable id used by the picker filter; survives renames.
+	id: string;
+	name: string;
+	// Folder-relative paths, identical in vault and HTTP modes.
+	paths: string[];
+}
+
+// Picker filter values besides collection ids.
+export const COLLECTION_FILTER_ALL = "";
+export const COLLECTION_FILTER_FAVORITES = "favorites";
+
+export function createCollection(collections: ImageCollection[]): ImageCollection {
+	const used = new Set([COLLECTION_FILTER_FAVORITES, ...collections.map((entry) => entry.id)]);
+	let id = `collection-${Date.now().toString(36)}`;
+	while (used.has(id)) {
+		id = `${id}x`;
+	}
+	return {id, name: `Collection ${collections.length + 1}`, paths: []};
+}
+
+export function findCollection(
+	collections: ImageCollection[],
+	id: string
+): ImageCollection | null {
+	return collections.find((collection) => collection.id === id) ?? null;
+}
+
+/**
+ * Add `path` when missing, remove it otherwise. Returns the new list.
+ */
+export function toggleCollectionPath(paths: string[], path: string): string[] {
+	const entry = normalizePlaylistPath(path);
+	if (!entry) {
+		return paths;
+	}
+	return paths.includes(entry) ? paths.filter((value) => value !== entry) : [...paths, entry];
+}
+
+/**
+ * Follow a rename of a file or folder. Folder renames move every path below it.
+ */
+export function renameCollectionPaths(paths: string[], oldPath: string, newPath: string): string[] {
+	const from = normalizePlaylistPath(oldPath);
+	const to = normalizePlaylistPath(newPath);
+	if (!from || !to || from === to) {
+		return paths;
+	}
+	const next = paths.map((value) => {
+		if (value === from) {
+			return to;
+		}
+		return value.startsWith(`${from}/`) ? `${to}${value.slice(from.length)}` : value;
+	});
+	return Array.from(new Set(next));
+}
+
+/**
+ * Follow a rename for one path; anything outside the renamed file or folder is returned as-is.
+ */
+export function renamePath(path: string, oldPath: string, newPath: string): string {
+	const [renamed] = renameCollectionPaths([normalizePlaylistPath(path)], oldPath, newPath);
+	return renamed && renamed !== normalizePlaylistPath(path) ? renamed : path;
+}
+
+/**
+ * Follow a rename for path-keyed settings such as per-image effects.
+ */
+export function renamePathKeys<T>(
+	record: Record<string, T>,
+	oldPath: string,
+	newPath: string
+): Record<string, T> {
+	const next: Record<string, T> = {};
+	for (const [key, value] of Object.entries(record)) {
+		next[renamePath(key, oldPath, newPath)] = value;
+	}
+	return next;
+}
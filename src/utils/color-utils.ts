@@ -1,7 +1,9 @@
 /* src/utils/color-utils.ts
  * Color parsing/formatting helpers for RGBA theme settings.
  * Why: keep user input safe and consistent across UI + CSS output.
- * Related: src/settings.ts, src/main.ts, styles.css */
+ * Related: src/settings.ts, src/main.ts, src/utils/named-colors.ts, styles.css */
+import {NAMED_COLORS} from "./named-colors";
+
 export interface RgbaColor {
 	r: number;
 	g: number;
@@ -16,10 +18,57 @@ export interface HsvColor {
 	a: number;
 }
 
+export interface ColorPalette {
+	average: RgbaColor;
+	dominant: RgbaColor;
+	// Most common first; near-duplicates are merged so each hue appears once.
+	colors: RgbaColor[];
+}
+
+export interface ThemeColorSuggestion {
+	base00: string;
+	base10: string;
+}
+
+export interface ContrastContext {
+	// Opaque color the theme color is composited over, usually the image's average.
+	backdrop: RgbaColor;
+	text: RgbaColor;
+}
+
+export type ContrastLevel = "AAA" | "AA" | "fail";
+
+export interface TonalStep {
+	// 0 ... 100, matching the --my-color-base-XX suffix.
+	step: number;
+	color: RgbaColor;
+}
+
+export const TONAL_SCALE_STEPS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+export type ColorOutputFormat = "rgb" | "hex" | "hsl" | "oklch";
+
+export const COLOR_OUTPUT_FORMATS: ColorOutputFormat[] = ["rgb", "hex", "hsl", "oklch"];
+
+// WCAG 2 thresholds for normal-size text.
+export const CONTRAST_AA = 4.5;
+export const CONTRAST_AAA = 7;
+
 const HEX_REGEX = /^#([0-9a-f]{3,8})$/i;
+const COLOR_FUNCTION_REGEX = /^([a-z]+)\(\s*([^()]*?)\s*\)$/;
+const HUE_UNITS: Record<string, number> = {deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360};
+// Below this OKLab distance a clipped color is indistinguishable from the chroma-reduced one.
+const GAMUT_JND = 0.02;
+// Buckets closer than this (redmean units, max ~765) count as the same palette color.
+const PALETTE_MERGE_DISTANCE = 60;
 
+/**
+ * Parse any CSS Color 4 sRGB-mappable color: hex, named colors, `transparent`,
+ * rgb()/hsl()/hwb() in legacy or space-separated syntax, and lab()/lch()/oklab()/oklch().
+ * Colors outside sRGB are gamut mapped by reducing OKLCH chroma.
+ */
 export function parseRgbaColor(value: string): RgbaColor | null {
-	const trimmed = value.trim();
+	const trimmed = value.trim().toLowerCase();
 	if (!trimmed) {
 		return null;
 	}
@@ -27,10 +76,41 @@ export function parseRgbaColor(value: string): RgbaColor | null {
 	if (hexMatch?.[1]) {
 		return parseHexColor(hexMatch[1]);
 	}
-	if (trimmed.toLowerCase().startsWith("rgb")) {
-		return parseRgbFunction(trimmed);
+	if (trimmed === "transparent") {
+		return {r: 0, g: 0, b: 0, a: 0};
+	}
+	const named = NAMED_COLORS[trimmed];
+	if (named) {
+		return parseHexColor(named);
+	}
+	return parseColorFunction(trimmed);
+}
+
+export function formatColor(color: RgbaColor, format: ColorOutputFormat): string {
+	switch (format) {
+		case "hex":
+			return formatHexAlphaColor(color);
+		case "hsl":
+			return formatHslColor(color);
+		case "oklch":
+			return formatOklchColor(color);
+		default:
+			return formatRgbaColor(color);
 	}
-	return null;
+}
+
+/**
+ * Guess the format a stored value was written in so pickers keep the user's choice.
+ */
+export function detectColorFormat(value: string): ColorOutputFormat {
+	const trimmed = value.trim().toLowerCase();
+	if (trimmed.startsWith("#")) {
+		return "hex";
+	}
+	if (trimmed.startsWith("hsl")) {
+		return "hsl";
+	}
+	return trimmed.startsWith("oklch") ? "oklch" : "rgb";
 }
 
 export function formatRgbaColor(color: RgbaColor): string {
@@ -44,6 +124,45 @@ export function formatHexColor(color: RgbaColor): string {
 	return `#${toHex(safe.r)}${toHex(safe.g)}${toHex(safe.b)}`;
 }
 
+export function formatHexAlphaColor(color: RgbaColor): string {
+	const safe = clampRgbaColor(color);
+	const hex = formatHexColor(safe);
+	return safe.a < 1 ? `${hex}${toHex(safe.a * 255)}` : hex;
+}
+
+export function formatHslColor(color: RgbaColor): string {
+	const safe = clampRgbaColor(color);
+	const r = safe.r / 255;
+	const g = safe.g / 255;
+	const b = safe.b / 255;
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const lightness = (max + min) / 2;
+	const delta = max - min;
+	const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+	const hue = rgbToHsv(safe).h;
+	return `hsl(${formatNumber(hue, 1)} ${formatNumber(saturation * 100, 1)}% ${formatNumber(
+		lightness * 100,
+		1
+	)}%${formatAlphaSuffix(safe.a)})`;
+}
+
+export function formatOklchColor(color: RgbaColor): string {
+	const safe = clampRgbaColor(color);
+	const [lightness, a, b] = linearSrgbToOklab([
+		decodeSrgbChannel(safe.r / 255),
+		decodeSrgbChannel(safe.g / 255),
+		decodeSrgbChannel(safe.b / 255),
+	]);
+	const chroma = Math.hypot(a, b);
+	// Hue is meaningless for grays; 0 keeps the output stable.
+	const hue = chroma < 0.0001 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+	return `oklch(${formatNumber(lightness, 3)} ${formatNumber(chroma, 3)} ${formatNumber(
+		hue,
+		1
+	)}${formatAlphaSuffix(safe.a)})`;
+}
+
 export function rgbToHsv(color: RgbaColor): HsvColor {
 	// Normalize to 0-1 for stable HSV conversion.
 	const r = clampChannel(color.r) / 255;
@@ -121,6 +240,212 @@ export function normalizeRgbaString(value: string, fallback: string): string {
 	return formatRgbaColor(parsed);
 }
 
+/**
+ * Approximate perceived distance between two colors ("redmean" weighted RGB).
+ * Alpha is ignored; callers compare opaque samples.
+ */
+export function colorDistance(a: RgbaColor, b: RgbaColor): number {
+	const meanR = (a.r + b.r) / 2;
+	const dr = a.r - b.r;
+	const dg = a.g - b.g;
+	const db = a.b - b.b;
+	return Math.sqrt(
+		(2 + meanR / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanR) / 256) * db * db
+	);
+}
+
+/**
+ * Build a palette from RGBA pixel data (e.g. `ImageData.data`).
+ * Mostly transparent pixels are skipped; returns null when nothing is left.
+ */
+export function extractPalette(pixels: ArrayLike<number>, maxColors = 6): ColorPalette | null {
+	const buckets = new Map<number, {r: number; g: number; b: number; count: number}>();
+	let totalR = 0;
+	let totalG = 0;
+	let totalB = 0;
+	let total = 0;
+	for (let index = 0; index + 3 < pixels.length; index += 4) {
+		if ((pixels[index + 3] ?? 0) < 128) {
+			continue;
+		}
+		const r = pixels[index] ?? 0;
+		const g = pixels[index + 1] ?? 0;
+		const b = pixels[index + 2] ?? 0;
+		totalR += r;
+		totalG += g;
+		totalB += b;
+		total += 1;
+		// 4 bits per channel keeps the histogram small while separating distinct hues.
+		const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+		const bucket = buckets.get(key);
+		if (bucket) {
+			bucket.r += r;
+			bucket.g += g;
+			bucket.b += b;
+			bucket.count += 1;
+		} else {
+			buckets.set(key, {r, g, b, count: 1});
+		}
+	}
+	if (total === 0) {
+		return null;
+	}
+	const average = clampRgbaColor({r: totalR / total, g: totalG / total, b: totalB / total, a: 1});
+	const colors: RgbaColor[] = [];
+	const sorted = [...buckets.values()].sort((left, right) => right.count - left.count);
+	for (const bucket of sorted) {
+		const color = clampRgbaColor({
+			r: bucket.r / bucket.count,
+			g: bucket.g / bucket.count,
+			b: bucket.b / bucket.count,
+			a: 1,
+		});
+		if (colors.some((existing) => colorDistance(existing, color) < PALETTE_MERGE_DISTANCE)) {
+			continue;
+		}
+		colors.push(color);
+		if (colors.length >= maxColors) {
+			break;
+		}
+	}
+	return {average, dominant: colors[0] ?? average, colors};
+}
+
+/**
+ * Propose dark theme base colors tinted by the image's dominant hue.
+ * The value is solved so `alpha * base + (1 - alpha) * image` stays dark enough for light text;
+ * very bright images at low alpha bottom out at black.
+ */
+export function suggestDarkThemeColors(
+	palette: ColorPalette,
+	alpha: number
+): ThemeColorSuggestion {
+	const safeAlpha = Math.min(1, Math.max(0.05, alpha));
+	const tint = rgbToHsv(palette.dominant);
+	const backdrop = rgbToHsv(palette.average).v;
+	const saturation = Math.min(tint.s, 0.45);
+	const valueFor = (target: number): number =>
+		clampUnit((target - (1 - safeAlpha) * backdrop) / safeAlpha);
+	return {
+		base00: formatRgbaColor(
+			hsvToRgb({h: tint.h, s: saturation, v: valueFor(0.12), a: safeAlpha})
+		),
+		base10: formatRgbaColor(
+			hsvToRgb({h: tint.h, s: saturation, v: valueFor(0.18), a: safeAlpha})
+		),
+	};
+}
+
+/**
+ * Linear RGB mix; `amount` 0 keeps `from`, 1 returns `to`. Alpha is mixed too.
+ */
+export function mixColors(from: RgbaColor, to: RgbaColor, amount: number): RgbaColor {
+	const t = clampUnit(amount);
+	return clampRgbaColor({
+		r: from.r + (to.r - from.r) * t,
+		g: from.g + (to.g - from.g) * t,
+		b: from.b + (to.b - from.b) * t,
+		a: from.a + (to.a - from.a) * t,
+	});
+}
+
+export function lightenColor(color: RgbaColor, amount: number): RgbaColor {
+	return mixColors(color, {r: 255, g: 255, b: 255, a: color.a}, amount);
+}
+
+export function darkenColor(color: RgbaColor, amount: number): RgbaColor {
+	return mixColors(color, {r: 0, g: 0, b: 0, a: color.a}, amount);
+}
+
+/**
+ * Tonal scale with the color itself at step 50, darker and lighter tones on either side.
+ * `darkFirst` puts the darkest tone at step 0, as dark themes number their base colors.
+ */
+export function buildTonalScale(color: RgbaColor, darkFirst: boolean): TonalStep[] {
+	return TONAL_SCALE_STEPS.map((step) => {
+		// 0.9 keeps the ends from collapsing into pure black and white.
+		const offset = ((step - 50) / 50) * 0.9;
+		const towardLight = darkFirst ? offset : -offset;
+		const tone =
+			towardLight >= 0 ? lightenColor(color, towardLight) : darkenColor(color, -towardLight);
+		return {step, color: tone};
+	});
+}
+
+/**
+ * WCAG relative luminance of the opaque sRGB color (alpha is ignored).
+ */
+export function relativeLuminance(color: RgbaColor): number {
+	const linear = (channel: number): number => decodeSrgbChannel(clampChannel(channel) / 255);
+	return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+export function contrastRatio(a: RgbaColor, b: RgbaColor): number {
+	const first = relativeLuminance(a);
+	const second = relativeLuminance(b);
+	return (Math.max(first, second) + 0.05) / (Math.min(first, second) + 0.05);
+}
+
+/**
+ * Blend a translucent color over an opaque backdrop, as the browser paints it.
+ */
+export function compositeOver(foreground: RgbaColor, backdrop: RgbaColor): RgbaColor {
+	const alpha = clampAlpha(foreground.a);
+	return clampRgbaColor({
+		r: foreground.r * alpha + backdrop.r * (1 - alpha),
+		g: foreground.g * alpha + backdrop.g * (1 - alpha),
+		b: foreground.b * alpha + backdrop.b * (1 - alpha),
+		a: 1,
+	});
+}
+
+export function getContrastLevel(ratio: number): ContrastLevel {
+	if (ratio >= CONTRAST_AAA) {
+		return "AAA";
+	}
+	return ratio >= CONTRAST_AA ? "AA" : "fail";
+}
+
+/**
+ * Contrast of text over `color` composited onto the context backdrop.
+ */
+export function getSurfaceContrast(color: RgbaColor, context: ContrastContext): number {
+	return contrastRatio(compositeOver(color, context.backdrop), context.text);
+}
+
+/**
+ * Move the color away from the text color until `target` is met, keeping its hue.
+ * Lightness changes first; alpha is raised only when lightness alone can't cover the image.
+ */
+export function fixContrast(
+	color: RgbaColor,
+	context: ContrastContext,
+	target = CONTRAST_AA
+): RgbaColor {
+	const hsv = rgbToHsv(color);
+	// Light text needs a darker surface and vice versa.
+	const darken = relativeLuminance(context.text) > 0.18;
+	const steps = 50;
+	for (let alpha = clampAlpha(color.a); ; alpha = Math.min(1, alpha + 0.05)) {
+		for (let step = 0; step <= steps; step += 1) {
+			const amount = step / steps;
+			const candidate = hsvToRgb({
+				h: hsv.h,
+				s: darken ? hsv.s : hsv.s * (1 - amount),
+				v: darken ? hsv.v * (1 - amount) : hsv.v + (1 - hsv.v) * amount,
+				a: alpha,
+			});
+			if (getSurfaceContrast(candidate, context) >= target) {
+				return candidate;
+			}
+		}
+		if (alpha >= 1) {
+			break;
+		}
+	}
+	return darken ? {r: 0, g: 0, b: 0, a: 1} : {r: 255, g: 255, b: 255, a: 1};
+}
+
 function parseHexColor(hex: string): RgbaColor | null {
 	const normalized = hex.toLowerCase();
 	if (![3, 4, 6, 8].includes(normalized.length)) {
@@ -144,51 +469,161 @@ function parseHexColor(hex: string): RgbaColor | null {
 	return clampRgbaColor({r, g, b, a});
 }
 
-function parseRgbFunction(value: string): RgbaColor | null {
-	const openParen = value.indexOf("(");
-	const closeParen = value.lastIndexOf(")");
-	if (openParen < 0 || closeParen <= openParen) {
+function parseColorFunction(value: string): RgbaColor | null {
+	const match = value.match(COLOR_FUNCTION_REGEX);
+	if (!match?.[1] || match[2] === undefined) {
 		return null;
 	}
-	const body = value.slice(openParen + 1, closeParen);
-	const parts = body
-		.split(",")
-		.map((part) => part.trim())
-		.filter((part) => part.length > 0);
-	if (parts.length < 3) {
+	const args = splitColorArguments(match[2]);
+	if (!args) {
 		return null;
 	}
-	const [rPart, gPart, bPart, aPart] = parts;
-	if (!rPart || !gPart || !bPart) {
+	const alpha = args.alpha === undefined ? 1 : parseAlphaChannel(args.alpha);
+	const [first, second, third] = args.channels;
+	if (alpha === null || first === undefined || second === undefined || third === undefined) {
 		return null;
 	}
-	const r = parseRgbChannel(rPart);
-	const g = parseRgbChannel(gPart);
-	const b = parseRgbChannel(bPart);
-	const a = aPart ? parseAlphaChannel(aPart) : 1;
-	if (r === null || g === null || b === null || a === null) {
+	const srgb = convertColorFunction(match[1], first, second, third);
+	if (!srgb) {
 		return null;
 	}
-	return clampRgbaColor({r, g, b, a});
+	return clampRgbaColor({
+		r: encodeSrgbChannel(srgb[0]) * 255,
+		g: encodeSrgbChannel(srgb[1]) * 255,
+		b: encodeSrgbChannel(srgb[2]) * 255,
+		a: alpha,
+	});
 }
 
-function parseRgbChannel(value: string): number | null {
-	if (value.endsWith("%")) {
-		const percentage = Number.parseFloat(value);
-		if (!Number.isFinite(percentage)) {
+/**
+ * Convert the three channel tokens of a color function into linear sRGB.
+ */
+function convertColorFunction(
+	name: string,
+	first: string,
+	second: string,
+	third: string
+): Vector3 | null {
+	switch (name) {
+		case "rgb":
+		case "rgba": {
+			const channels = [first, second, third].map((token) => parseComponent(token, 255));
+			return toVector(channels, (r, g, b) =>
+				[r, g, b].map((channel) => decodeSrgbChannel(clampUnit(channel / 255)))
+			);
+		}
+		case "hsl":
+		case "hsla":
+			return toVector(
+				[parseHue(first), parseComponent(second, 100), parseComponent(third, 100)],
+				(h, sat, light) => hslToSrgb(h, sat / 100, light / 100).map(decodeSrgbChannel)
+			);
+		case "hwb":
+			return toVector(
+				[parseHue(first), parseComponent(second, 100), parseComponent(third, 100)],
+				(h, white, black) => hwbToSrgb(h, white / 100, black / 100).map(decodeSrgbChannel)
+			);
+		case "lab":
+			return toVector(
+				[parseComponent(first, 100), parseComponent(second, 125), parseComponent(third, 125)],
+				(l, a, b) => gamutMapLinearSrgb(labToLinearSrgb([l, a, b]))
+			);
+		case "lch":
+			return toVector(
+				[parseComponent(first, 100), parseComponent(second, 150), parseHue(third)],
+				(l, c, h) => gamutMapLinearSrgb(labToLinearSrgb(polarToCartesian(l, c, h)))
+			);
+		case "oklab":
+			return toVector(
+				[parseComponent(first, 1), parseComponent(second, 0.4), parseComponent(third, 0.4)],
+				(l, a, b) => gamutMapOklab([l, a, b])
+			);
+		case "oklch":
+			return toVector(
+				[parseComponent(first, 1), parseComponent(second, 0.4), parseHue(third)],
+				(l, c, h) => gamutMapOklab(polarToCartesian(l, c, h))
+			);
+		default:
+			return null;
+	}
+}
+
+type Vector3 = [number, number, number];
+
+function toVector(
+	values: Array<number | null>,
+	convert: (first: number, second: number, third: number) => number[]
+): Vector3 | null {
+	const [first, second, third] = values;
+	if (first == null || second == null || third == null) {
+		return null;
+	}
+	const [x = 0, y = 0, z = 0] = convert(first, second, third);
+	return [x, y, z];
+}
+
+/**
+ * Split `a, b, c, d` (legacy) or `a b c / d` (modern) into channel and alpha tokens.
+ */
+function splitColorArguments(body: string): {channels: string[]; alpha?: string} | null {
+	if (body.includes(",")) {
+		const parts = body.split(",").map((part) => part.trim());
+		if ((parts.length !== 3 && parts.length !== 4) || parts.some((part) => !part)) {
 			return null;
 		}
-		return clampChannel(Math.round(percentage * 2.55));
+		return {channels: parts.slice(0, 3), alpha: parts[3]};
+	}
+	const [main = "", alpha, extra] = body.split("/");
+	if (extra !== undefined) {
+		return null;
+	}
+	const channels = main.trim().split(/\s+/);
+	if (channels.length !== 3) {
+		return null;
+	}
+	const trimmedAlpha = alpha?.trim();
+	if (trimmedAlpha === "") {
+		return null;
+	}
+	return {channels, alpha: trimmedAlpha};
+}
+
+/**
+ * Parse a number or percentage; `percentScale` is the value 100% stands for.
+ */
+function parseComponent(token: string, percentScale: number): number | null {
+	if (token === "none") {
+		return 0;
+	}
+	if (token.endsWith("%")) {
+		const percentage = Number(token.slice(0, -1));
+		return Number.isFinite(percentage) ? (percentage / 100) * percentScale : null;
 	}
-	const numeric = Number.parseFloat(value);
+	const numeric = Number(token);
+	return Number.isFinite(numeric) ? numeric : null;
+}
+
+function parseHue(token: string): number | null {
+	if (token === "none") {
+		return 0;
+	}
+	const match = token.match(/^(-?[\d.]+(?:e-?\d+)?)(deg|grad|rad|turn)?$/);
+	if (!match?.[1]) {
+		return null;
+	}
+	const numeric = Number(match[1]);
 	if (!Number.isFinite(numeric)) {
 		return null;
 	}
-	return clampChannel(Math.round(numeric));
+	const degrees = numeric * (HUE_UNITS[match[2] ?? "deg"] ?? 1);
+	return ((degrees % 360) + 360) % 360;
 }
 
 function parseAlphaChannel(value: string): number | null {
 	const trimmed = value.trim();
+	if (trimmed === "none") {
+		return 0;
+	}
 	if (trimmed.endsWith("%")) {
 		const percentage = Number.parseFloat(trimmed);
 		if (!Number.isFinite(percentage)) {
@@ -207,6 +642,162 @@ function parseAlphaChannel(value: string): number | null {
 	return clampAlpha(numeric);
 }
 
+function hslToSrgb(hue: number, saturation: number, lightness: number): number[] {
+	const s = clampUnit(saturation);
+	const l = clampUnit(lightness);
+	const channel = (offset: number): number => {
+		const k = (offset + hue / 30) % 12;
+		const a = s * Math.min(l, 1 - l);
+		return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+	};
+	return [channel(0), channel(8), channel(4)];
+}
+
+function hwbToSrgb(hue: number, whiteness: number, blackness: number): number[] {
+	const white = clampUnit(whiteness);
+	const black = clampUnit(blackness);
+	if (white + black >= 1) {
+		const gray = white / (white + black);
+		return [gray, gray, gray];
+	}
+	const scale = 1 - white - black;
+	return hslToSrgb(hue, 1, 0.5).map((channel) => channel * scale + white);
+}
+
+function polarToCartesian(lightness: number, chroma: number, hue: number): Vector3 {
+	const radians = (hue * Math.PI) / 180;
+	const safeChroma = Math.max(0, chroma);
+	return [lightness, safeChroma * Math.cos(radians), safeChroma * Math.sin(radians)];
+}
+
+function labToLinearSrgb([lightness, a, b]: Vector3): Vector3 {
+	// CIE Lab (D50) -> XYZ D50 -> XYZ D65 (Bradford) -> linear sRGB, per CSS Color 4.
+	const kappa = 24389 / 27;
+	const epsilon = 216 / 24389;
+	const fy = (lightness + 16) / 116;
+	const fx = a / 500 + fy;
+	const fz = fy - b / 200;
+	const xyzD50: Vector3 = [
+		(fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa) * 0.3457 / 0.3585,
+		lightness > kappa * epsilon ? fy ** 3 : lightness / kappa,
+		((fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa) * (1 - 0.3457 - 0.3585)) / 0.3585,
+	];
+	const xyzD65 = multiplyMatrix(
+		[
+			[0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+			[-0.028369706963208136, 1.0099954580106629, 0.021041398966943008],
+			[0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+		],
+		xyzD50
+	);
+	return multiplyMatrix(
+		[
+			[3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+			[-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+			[0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+		],
+		xyzD65
+	);
+}
+
+function oklabToLinearSrgb([lightness, a, b]: Vector3): Vector3 {
+	const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+	const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+	const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+	return [
+		4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+		-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+		-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+	];
+}
+
+function linearSrgbToOklab([r, g, b]: Vector3): Vector3 {
+	const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+	const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+	const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+	return [
+		0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+		1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+		0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+	];
+}
+
+function gamutMapLinearSrgb(linear: Vector3): Vector3 {
+	return isInSrgbGamut(linear) ? linear : gamutMapOklab(linearSrgbToOklab(linear));
+}
+
+/**
+ * CSS Color 4 gamut mapping: lower OKLCH chroma at constant lightness and hue until
+ * the color fits sRGB, accepting a clipped color once it is within one JND.
+ */
+function gamutMapOklab(oklab: Vector3): Vector3 {
+	const linear = oklabToLinearSrgb(oklab);
+	if (isInSrgbGamut(linear)) {
+		return linear;
+	}
+	const [lightness, a, b] = oklab;
+	if (lightness >= 1) {
+		return [1, 1, 1];
+	}
+	if (lightness <= 0) {
+		return [0, 0, 0];
+	}
+	const hue = Math.atan2(b, a);
+	let low = 0;
+	let high = Math.hypot(a, b);
+	while (high - low > 0.0001) {
+		const chroma = (low + high) / 2;
+		const target: Vector3 = [lightness, chroma * Math.cos(hue), chroma * Math.sin(hue)];
+		const candidate = oklabToLinearSrgb(target);
+		if (isInSrgbGamut(candidate)) {
+			low = chroma;
+			continue;
+		}
+		const clipped = candidate.map(clampUnit) as Vector3;
+		const [clippedL, clippedA, clippedB] = linearSrgbToOklab(clipped);
+		const deltaE = Math.hypot(clippedL - target[0], clippedA - target[1], clippedB - target[2]);
+		if (deltaE < GAMUT_JND) {
+			return clipped;
+		}
+		high = chroma;
+	}
+	return oklabToLinearSrgb([lightness, low * Math.cos(hue), low * Math.sin(hue)]).map(
+		clampUnit
+	) as Vector3;
+}
+
+function isInSrgbGamut(linear: Vector3): boolean {
+	return linear.every((channel) => channel >= -0.000001 && channel <= 1.000001);
+}
+
+function multiplyMatrix(matrix: Vector3[], vector: Vector3): Vector3 {
+	return matrix.map(
+		(row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]
+	) as Vector3;
+}
+
+function decodeSrgbChannel(value: number): number {
+	const magnitude = Math.abs(value);
+	const linear = magnitude <= 0.04045 ? magnitude / 12.92 : ((magnitude + 0.055) / 1.055) ** 2.4;
+	return Math.sign(value) * linear;
+}
+
+function encodeSrgbChannel(value: number): number {
+	const magnitude = Math.abs(value);
+	const encoded =
+		magnitude <= 0.0031308 ? magnitude * 12.92 : 1.055 * magnitude ** (1 / 2.4) - 0.055;
+	return clampUnit(Math.sign(value) * encoded);
+}
+
+function formatNumber(value: number, digits: number): string {
+	const factor = 10 ** digits;
+	return String(Math.round(value * factor) / factor);
+}
+
+function formatAlphaSuffix(alpha: number): string {
+	return alpha < 1 ? ` / ${formatAlpha(alpha)}` : "";
+}
+
 function clampRgbaColor(color: RgbaColor): RgbaColor {
 	return {
 		r: clampChannel(color.r),
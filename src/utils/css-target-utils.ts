@@ -0,0 +1,31 @@
+/* src/utils/css-target-utils.ts
+ * Extra CSS variable targets and value templates for the selected background.
+ * Why: one selection can feed Annotator, snippets and themes that read different names.
+ * Related: src/main.ts, src/settings.ts */
+import type {ThemeSlot} from "../settings";
+
+export interface CssVariableTarget {
+	slot: ThemeSlot;
+	name: string;
+	// `{url}` is replaced with the escaped image URL; empty means the default template.
+	template: string;
+}
+
+export const DEFAULT_CSS_VALUE_TEMPLATE = 'url("{url}")';
+
+export function createCssVariableTarget(slot: ThemeSlot): CssVariableTarget {
+	return {slot, name: "", template: ""};
+}
+
+export function isValidCssVariableName(name: string): boolean {
+	return /^--[A-Za-z0-9_-]+$/.test(name.trim());
+}
+
+export function renderCssValueTemplate(template: string, url: string): string {
+	const safeUrl = url.replace(/"/g, "%22");
+	// Strip characters that could end the declaration from user templates.
+	return (template.trim() || DEFAULT_CSS_VALUE_TEMPLATE)
+		.split("{url}")
+		.map((part) => part.replace(/[;{}]/g, ""))
+		.join(safeUrl);
+}
@@ -0,0 +1,90 @@
+/* src/utils/effect-utils.ts
+ * Background effect settings (blur, dim, filters, sizing) and their CSS variables.
+ * Why: lets themes read readable-behind-text tweaks without per-image snippets.
+ * Related: src/main.ts, src/settings.ts, styles.css */
+
+export type BackgroundSizeMode = "cover" | "contain" | "custom";
+
+export type BackgroundRepeatMode = "no-repeat" | "repeat" | "repeat-x" | "repeat-y";
+
+export interface BackgroundEffects {
+	blur: number;
+	dim: number;
+	brightness: number;
+	saturation: number;
+	position: string;
+	size: BackgroundSizeMode;
+	customSize: string;
+	repeat: BackgroundRepeatMode;
+}
+
+export const DEFAULT_BACKGROUND_EFFECTS: BackgroundEffects = {
+	blur: 0,
+	dim: 0,
+	brightness: 100,
+	saturation: 100,
+	position: "center",
+	size: "cover",
+	customSize: "auto",
+	repeat: "no-repeat",
+};
+
+// Suffixes appended to the image variable, e.g. --anp-background-image-dark-blur.
+export const EFFECT_VARIABLE_SUFFIXES = [
+	"blur",
+	"dim",
+	"brightness",
+	"saturation",
+	"filter",
+	"position",
+	"size",
+	"repeat",
+] as const;
+
+export type EffectVariableSuffix = (typeof EFFECT_VARIABLE_SUFFIXES)[number];
+
+export function normalizeBackgroundEffects(
+	value: Partial<BackgroundEffects> | undefined
+): BackgroundEffects {
+	const merged = {...DEFAULT_BACKGROUND_EFFECTS, ...value};
+	return {
+		blur: clampNumber(merged.blur, 0, 100, DEFAULT_BACKGROUND_EFFECTS.blur),
+		dim: clampNumber(merged.dim, 0, 1, DEFAULT_BACKGROUND_EFFECTS.dim),
+		brightness: clampNumber(merged.brightness, 0, 300, DEFAULT_BACKGROUND_EFFECTS.brightness),
+		saturation: clampNumber(merged.saturation, 0, 300, DEFAULT_BACKGROUND_EFFECTS.saturation),
+		position: merged.position.trim() || DEFAULT_BACKGROUND_EFFECTS.position,
+		size: merged.size,
+		customSize: merged.customSize.trim() || DEFAULT_BACKGROUND_EFFECTS.customSize,
+		repeat: merged.repeat,
+	};
+}
+
+export function buildEffectVariables(
+	effects: BackgroundEffects
+): Record<EffectVariableSuffix, string> {
+	const safe = normalizeBackgroundEffects(effects);
+	return {
+		blur: `${safe.blur}px`,
+		dim: String(safe.dim),
+		brightness: `${safe.brightness}%`,
+		saturation: `${safe.saturation}%`,
+		// Combined filter so snippets can use a single `filter: var(...)`.
+		filter: `blur(${safe.blur}px) brightness(${safe.brightness}%) saturate(${safe.saturation}%)`,
+		position: sanitizeCssValue(safe.position),
+		size: safe.size === "custom" ? sanitizeCssValue(safe.customSize) : safe.size,
+		repeat: safe.repeat,
+	};
+}
+
+function sanitizeCssValue(value: string): string {
+	// Free-form inputs must not be able to close the declaration.
+	return value.replace(/[;{}]/g, "").trim() || "auto";
+}
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+	const numeric = typeof value === "number" ? value : Number.parseFloat(String(value));
+	if (!Number.isFinite(numeric)) {
+		return fallback;
+	}
+	return Math.min(max, Math.max(min, numeric));
+}
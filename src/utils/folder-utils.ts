@@ -0,0 +1,97 @@
+/* src/utils/folder-utils.ts
+ * Folder views over the flat picker list: one folder at a time, or grouped by folder.
+ * Why: every source flattens subfolders, which buries structure in large libraries.
+ * Related: src/ui/background-picker-overlay.ts, src/utils/image-utils.ts */
+import type {ImageItem} from "./image-utils";
+
+export type PickerFolderView = "flat" | "browse" | "sections";
+
+export const PICKER_FOLDER_VIEWS: {value: PickerFolderView; label: string}[] = [
+	{value: "flat", label: "One grid"},
+	{value: "browse", label: "Browse folders"},
+	{value: "sections", label: "Group by folder"},
+];
+
+export interface FolderEntry {
+	// Folder-relative path, e.g. "nature/forest".
+	path: string;
+	name: string;
+	// Images anywhere below the folder; 0 when the source does not say.
+	count: number;
+}
+
+export interface FolderSection {
+	folder: string;
+	items: ImageItem[];
+}
+
+export function getParentFolder(relativePath: string): string {
+	const index = relativePath.lastIndexOf("/");
+	return index === -1 ? "" : relativePath.slice(0, index);
+}
+
+export function getFolderName(folder: string): string {
+	return folder.slice(folder.lastIndexOf("/") + 1);
+}
+
+/**
+ * Items directly in `folder` plus its immediate subfolders, derived from a recursive list.
+ */
+export function listFolder(
+	items: ImageItem[],
+	folder: string
+): {items: ImageItem[]; folders: FolderEntry[]} {
+	const prefix = folder ? `${folder}/` : "";
+	const counts = new Map<string, number>();
+	const direct: ImageItem[] = [];
+	for (const item of items) {
+		if (!item.relativePath.startsWith(prefix)) {
+			continue;
+		}
+		const rest = item.relativePath.slice(prefix.length);
+		const slash = rest.indexOf("/");
+		if (slash === -1) {
+			direct.push(item);
+			continue;
+		}
+		const child = `${prefix}${rest.slice(0, slash)}`;
+		counts.set(child, (counts.get(child) ?? 0) + 1);
+	}
+	const folders = Array.from(counts, ([path, count]) => ({path, name: getFolderName(path), count}))
+		.sort((left, right) => left.name.localeCompare(right.name));
+	return {items: direct, folders};
+}
+
+/**
+ * Split items into one section per parent folder. Sections follow the first appearance of
+ * their folder, so the caller's sort order decides which folder comes first.
+ */
+export function groupByFolder(items: ImageItem[]): FolderSection[] {
+	const sections = new Map<string, ImageItem[]>();
+	for (const item of items) {
+		const folder = getParentFolder(item.relativePath);
+		const list = sections.get(folder);
+		if (list) {
+			list.push(item);
+		} else {
+			sections.set(folder, [item]);
+		}
+	}
+	return Array.from(sections, ([folder, sectionItems]) => ({folder, items: sectionItems}));
+}
+
+/**
+ * Breadcrumb trail from the root ("") down to `folder`.
+ */
+export function getBreadcrumbs(folder: string): {path: string; name: string}[] {
+	const crumbs = [{path: "", name: ""}];
+	if (!folder) {
+		return crumbs;
+	}
+	let path = "";
+	for (const segment of folder.split("/")) {
+		path = path ? `${path}/${segment}` : segment;
+		crumbs.push({path, name: segment});
+	}
+	return crumbs;
+}
@@ -0,0 +1,91 @@
+/* src/utils/gradient-utils.ts
+ * Gradient and solid-color backgrounds stored alongside image paths.
+ * Why: a plain gradient is sometimes preferable to a photo and needs no image source.
+ * Related: src/main.ts, src/settings.ts, src/ui/background-picker-overlay.ts */
+import {normalizeRgbaString} from "./color-utils";
+
+export type GradientType = "linear" | "radial" | "conic" | "solid";
+
+export interface GradientStop {
+	color: string;
+	// 0 ... 100 percent along the gradient line.
+	position: number;
+}
+
+export interface BackgroundGradient {
+	// Stable id referenced by selections as `gradient:<id>`; survives renames.
+	id: string;
+	name: string;
+	type: GradientType;
+	// Degrees for linear and conic gradients.
+	angle: number;
+	stops: GradientStop[];
+}
+
+export const GRADIENT_TYPES: GradientType[] = ["linear", "radial", "conic", "solid"];
+
+const GRADIENT_PREFIX = "gradient:";
+const FALLBACK_STOP_COLOR = "rgba(0, 0, 0, 1)";
+
+export function isGradientReference(value: string): boolean {
+	return value.trim().startsWith(GRADIENT_PREFIX);
+}
+
+export function getGradientReference(gradient: BackgroundGradient): string {
+	return `${GRADIENT_PREFIX}${gradient.id}`;
+}
+
+export function findGradient(
+	gradients: BackgroundGradient[],
+	reference: string
+): BackgroundGradient | null {
+	if (!isGradientReference(reference)) {
+		return null;
+	}
+	const id = reference.trim().slice(GRADIENT_PREFIX.length);
+	return gradients.find((gradient) => gradient.id === id) ?? null;
+}
+
+export function createGradient(gradients: BackgroundGradient[]): BackgroundGradient {
+	const used = new Set(gradients.map((gradient) => gradient.id));
+	let id = Date.now().toString(36);
+	while (used.has(id)) {
+		id = `${id}x`;
+	}
+	return {
+		id,
+		name: `Gradient ${gradients.length + 1}`,
+		type: "linear",
+		angle: 135,
+		stops: [
+			{color: "rgba(17, 15, 32, 1)", position: 0},
+			{color: "rgba(74, 58, 130, 1)", position: 100},
+		],
+	};
+}
+
+/**
+ * CSS `<image>` for the gradient. Solid colors are a two-stop gradient of the same color
+ * so they still work in `background-image: var(...)`.
+ */
+export function buildGradientCss(gradient: BackgroundGradient): string {
+	const stops = [...gradient.stops]
+		.map((stop) => ({
+			color: normalizeRgbaString(stop.color, FALLBACK_STOP_COLOR),
+			position: Math.min(100, Math.max(0, Number.isFinite(stop.position) ? stop.position : 0)),
+		}))
+		.sort((left, right) => left.position - right.position);
+	const first = stops[0]?.color ?? FALLBACK_STOP_COLOR;
+	if (gradient.type === "solid" || stops.length < 2) {
+		return `linear-gradient(${first}, ${first})`;
+	}
+	const stopList = stops.map((stop) => `${stop.color} ${stop.position}%`).join(", ");
+	const angle = Number.isFinite(gradient.angle) ? gradient.angle : 0;
+	if (gradient.type === "radial") {
+		return `radial-gradient(circle at center, ${stopList})`;
+	}
+	if (gradient.type === "conic") {
+		return `conic-gradient(from ${angle}deg at center, ${stopList})`;
+	}
+	return `linear-gradient(${angle}deg, ${stopList})`;
+}
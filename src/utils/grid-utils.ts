@@ -0,0 +1,118 @@
+/* src/utils/grid-utils.ts
+ * Row model for the virtualized picker grid.
+ * Why: mounting a tile for every image does not scale to libraries with thousands of files.
+ * Related: src/ui/background-picker-overlay.ts */
+
+export type PickerTileSize = "fit" | "small" | "medium" | "large";
+
+// `width` is the target tile width in pixels; 0 fits every tile on one screen.
+export const PICKER_TILE_SIZES: {value: PickerTileSize; label: string; width: number}[] = [
+	{value: "fit", label: "Fit to screen", width: 0},
+	{value: "small", label: "Small tiles", width: 120},
+	{value: "medium", label: "Medium tiles", width: 180},
+	{value: "large", label: "Large tiles", width: 260},
+];
+
+export interface GridRow {
+	// Entry index range [start, end) shown in this row.
+	start: number;
+	end: number;
+	top: number;
+	height: number;
+	isHeading: boolean;
+}
+
+/**
+ * As many columns of roughly `tileWidth` as fit; tiles stretch to fill the remainder.
+ */
+export function getFixedGridLayout(
+	width: number,
+	tileWidth: number,
+	aspect: number,
+	gap: number
+): {columns: number; rowHeight: number} {
+	const columns = Math.max(Math.floor((width + gap) / (tileWidth + gap)), 1);
+	const actualWidth = (width - gap * (columns - 1)) / columns;
+	return {columns, rowHeight: Math.max(actualWidth / aspect, 1)};
+}
+
+/**
+ * Pack entries into rows of `columns`. A heading takes a row of its own and the entries
+ * after it start a fresh row. Returns the rows and the total scroll height.
+ */
+export function buildGridRows(
+	headings: boolean[],
+	columns: number,
+	rowHeight: number,
+	headingHeight: number,
+	gap: number
+): {rows: GridRow[]; height: number} {
+	const rows: GridRow[] = [];
+	let top = 0;
+	let index = 0;
+	while (index < headings.length) {
+		const isHeading = headings[index] === true;
+		let end = index + 1;
+		if (!isHeading) {
+			while (end < headings.length && end - index < columns && headings[end] !== true) {
+				end += 1;
+			}
+		}
+		const height = isHeading ? headingHeight : rowHeight;
+		rows.push({start: index, end, top, height, isHeading});
+		top += height + gap;
+		index = end;
+	}
+	return {rows, height: Math.max(top - gap, 0)};
+}
+
+/**
+ * Index of the row holding `entryIndex`, or -1.
+ */
+export function findRowIndex(rows: GridRow[], entryIndex: number): number {
+	let low = 0;
+	let high = rows.length - 1;
+	while (low <= high) {
+		const middle = (low + high) >> 1;
+		const row = rows[middle];
+		if (!row) {
+			break;
+		}
+		if (entryIndex < row.start) {
+			high = middle - 1;
+		} else if (entryIndex >= row.end) {
+			low = middle + 1;
+		} else {
+			return middle;
+		}
+	}
+	return -1;
+}
+
+/**
+ * First and last row (inclusive) intersecting the pixel range [top, bottom].
+ */
+export function findVisibleRows(
+	rows: GridRow[],
+	top: number,
+	bottom: number
+): {first: number; last: number} {
+	let low = 0;
+	let high = rows.length - 1;
+	let first = rows.length;
+	while (low <= high) {
+		const middle = (low + high) >> 1;
+		const row = rows[middle];
+		if (row && row.top + row.height >= top) {
+			first = middle;
+			high = middle - 1;
+		} else {
+			low = middle + 1;
+		}
+	}
+	let last = first;
+	while (last + 1 < rows.length && (rows[last + 1]?.top ?? Infinity) <= bottom) {
+		last += 1;
+	}
+	return {first, last: Math.min(last, rows.length - 1)};
+}
@@ -0,0 +1,28 @@
+/* src/utils/history-utils.ts
+ * Bounded list of recently applied backgrounds.
+ * Why: changing the selection used to forget the previous image with no way back.
+ * Related: src/main.ts, src/ui/background-picker-overlay.ts */
+import {normalizePlaylistPath} from "./rotation-utils";
+
+export const BACKGROUND_HISTORY_LIMIT = 30;
+
+/**
+ * Move `path` to the front (newest first) and cap the list. Paths are stored normalized.
+ */
+export function pushHistoryEntry(
+	history: string[],
+	path: string,
+	limit = BACKGROUND_HISTORY_LIMIT
+): string[] {
+	const entry = normalizePlaylistPath(path);
+	if (!entry) {
+		return history;
+	}
+	const next = history.filter((value) => value !== entry);
+	next.unshift(entry);
+	return next.slice(0, Math.max(1, limit));
+}
+
+export function pruneHistory(history: string[], isAvailable: (path: string) => boolean): string[] {
+	return history.filter((path) => isAvailable(path));
+}
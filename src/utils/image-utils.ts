@@ -9,6 +9,9 @@ export interface ImageItem {
 	relativePath: string;
 	url: string;
 	displayName: string;
+	// From TFile.stat or the JSON index; missing for HTML listings.
+	size?: number;
+	mtime?: number;
 }
 
 export interface ImageItemsResult {
@@ -25,6 +28,8 @@ export interface RemoteIndexItem {
 
 export interface RemoteIndexResult {
 	items: RemoteIndexItem[];
+	// Subfolders of `path`, when the server lists them for non-recursive requests.
+	folders?: string[];
 	errorMessage: string;
 }
 
@@ -41,6 +46,9 @@ const IMAGE_EXTENSIONS = new Set([
 	"tiff",
 ]);
 
+// Played as a muted, looping <video> layer because CSS url() cannot show them.
+const VIDEO_EXTENSIONS = new Set(["webm", "mp4"]);
+
 export function getVaultImageItems(
 	app: App,
 	baseUrl: string,
@@ -82,6 +90,8 @@ export function getVaultImageItems(
 				relativePath,
 				url,
 				displayName: file.basename,
+				size: file.stat.size,
+				mtime: file.stat.mtime,
 			};
 		})
 		.filter((item) => item.url.length > 0)
@@ -163,7 +173,7 @@ export async function getRemoteIndexItems(
 	const extensions =
 		options.extensions && options.extensions.length > 0
 			? options.extensions
-			: Array.from(IMAGE_EXTENSIONS);
+			: [...Array.from(IMAGE_EXTENSIONS), ...Array.from(VIDEO_EXTENSIONS)];
 	query.set("ext", extensions.join(","));
 	if (options.path) {
 		query.set("path", options.path);
@@ -184,9 +194,13 @@ export async function getRemoteIndexItems(
 			};
 		}
 
-		const data = JSON.parse(response.text) as {items?: RemoteIndexItem[]};
+		const data = JSON.parse(response.text) as {items?: RemoteIndexItem[]; folders?: unknown};
 		const items = Array.isArray(data?.items) ? data.items : [];
-		return {items, errorMessage: ""};
+		if (!Array.isArray(data?.folders)) {
+			return {items, errorMessage: ""};
+		}
+		const folders = data.folders.filter((value): value is string => typeof value === "string");
+		return {items, folders, errorMessage: ""};
 	} catch {
 		return {
 			items: [],
@@ -213,7 +227,7 @@ export function buildImageItemsFromRelativePaths(
 
 	const normalizedFolder = useVault ? normalizePath(resolvedFolder.folderPath) : "";
 	const items = relativePaths
-		.map((relativePath) => {
+		.map((relativePath): ImageItem | null => {
 			const normalizedRelative = relativePath.trim().replace(/^\/+/, "");
 			let file: TFile | null = null;
 			let url = "";
@@ -239,6 +253,8 @@ export function buildImageItemsFromRelativePaths(
 				relativePath: normalizedRelative,
 				url,
 				displayName: file?.basename ?? getFilenameFromPath(normalizedRelative),
+				size: file?.stat.size,
+				mtime: file?.stat.mtime,
 			};
 		})
 		.filter((item): item is ImageItem => Boolean(item))
@@ -247,6 +263,40 @@ export function buildImageItemsFromRelativePaths(
 	return {items, errorMessage: ""};
 }
 
+/**
+ * Copy size and mtime from JSON index entries onto items built from their paths.
+ * Vault stats already on an item are kept.
+ */
+export function applyIndexMetadata(
+	result: ImageItemsResult,
+	indexItems: RemoteIndexItem[]
+): ImageItemsResult {
+	const metadata = new Map(
+		indexItems.map((entry) => [entry.relativePath.trim().replace(/^\/+/, ""), entry])
+	);
+	const items = result.items.map((item) => {
+		const entry = metadata.get(item.relativePath);
+		if (!entry) {
+			return item;
+		}
+		return {
+			...item,
+			size: item.size ?? entry.size,
+			mtime: item.mtime ?? entry.mtime,
+		};
+	});
+	return {items, errorMessage: result.errorMessage};
+}
+
+export function isVideoPath(pathValue: string): boolean {
+	return VIDEO_EXTENSIONS.has(getPathExtension(pathValue));
+}
+
+export function isBackgroundPath(pathValue: string): boolean {
+	const ext = getPathExtension(pathValue);
+	return IMAGE_EXTENSIONS.has(ext) || VIDEO_EXTENSIONS.has(ext);
+}
+
 export function buildUrlFromRelative(baseUrl: string, relativePath: string): string {
 	const trimmedBaseUrl = baseUrl.trim().replace(/\/+$/, "");
 	const trimmedRelativePath = relativePath.trim().replace(/^\/+/, "");
@@ -256,6 +306,131 @@ export function buildUrlFromRelative(baseUrl: string, relativePath: string): str
 	return `${trimmedBaseUrl}/${encodePath(trimmedRelativePath)}`;
 }
 
+/**
+ * Resolve once the image is decoded (true) or failed/timed out (false).
+ * Callers apply the image either way; this only avoids showing a blank frame.
+ */
+export function preloadImage(url: string, timeoutMs = 10000): Promise<boolean> {
+	return new Promise((resolve) => {
+		const img = new Image();
+		let settled = false;
+		const finish = (loaded: boolean): void => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			window.clearTimeout(timer);
+			resolve(loaded);
+		};
+		const timer = window.setTimeout(() => finish(false), timeoutMs);
+		img.decoding = "async";
+		img.addEventListener("load", () => {
+			// decode() waits for the pixels, not only the bytes.
+			img.decode().then(
+				() => finish(true),
+				() => finish(true)
+			);
+		});
+		img.addEventListener("error", () => finish(false));
+		img.src = url;
+	});
+}
+
+/**
+ * Load an image that can be drawn to a canvas without tainting it.
+ * HTTP(S) URLs are fetched with requestUrl (no CORS needed, auth header included)
+ * and decoded from a blob URL; vault resource URLs load directly.
+ */
+export async function loadCanvasImage(
+	url: string,
+	authToken = "",
+	timeoutMs = 10000
+): Promise<HTMLImageElement | null> {
+	let source = url;
+	let objectUrl = "";
+	if (/^https?:\/\//i.test(url)) {
+		try {
+			const headers = authToken ? {Authorization: `Bearer ${authToken}`} : undefined;
+			const response = await requestUrl({url, method: "GET", headers});
+			if (response.status < 200 || response.status >= 300) {
+				return null;
+			}
+			const type = response.headers["content-type"] ?? "";
+			objectUrl = URL.createObjectURL(new Blob([response.arrayBuffer], {type}));
+			source = objectUrl;
+		} catch {
+			return null;
+		}
+	}
+	const image = await new Promise<HTMLImageElement | null>((resolve) => {
+		const img = new Image();
+		let settled = false;
+		const finish = (loaded: boolean): void => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			window.clearTimeout(timer);
+			resolve(loaded ? img : null);
+		};
+		const timer = window.setTimeout(() => finish(false), timeoutMs);
+		img.addEventListener("load", () => finish(true));
+		img.addEventListener("error", () => finish(false));
+		img.src = source;
+	});
+	if (objectUrl) {
+		// Decoded pixels stay available for drawImage after the blob URL is revoked.
+		URL.revokeObjectURL(objectUrl);
+	}
+	return image;
+}
+
+/**
+ * Draw the image onto a small canvas and return its RGBA pixels, or null when it
+ * fails to load or cannot be read.
+ */
+export async function sampleImagePixels(
+	url: string,
+	authToken = "",
+	size = 64
+): Promise<Uint8ClampedArray | null> {
+	const img = await loadCanvasImage(url, authToken);
+	if (!img) {
+		return null;
+	}
+	const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight, 1));
+	const width = Math.max(1, Math.round(img.naturalWidth * scale));
+	const height = Math.max(1, Math.round(img.naturalHeight * scale));
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const context = canvas.getContext("2d", {willReadFrequently: true});
+	if (!context) {
+		return null;
+	}
+	try {
+		context.drawImage(img, 0, 0, width, height);
+		return context.getImageData(0, 0, width, height).data;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Normalize a frontmatter background value into a plain path or URL.
+ * Accepts `path/to.jpg`, `[[to.jpg]]`, `![[to.jpg|alias]]` and single-item lists.
+ */
+export function normalizeBackgroundReference(value: unknown): string {
+	const raw = Array.isArray(value) ? (value[0] as unknown) : value;
+	if (typeof raw !== "string") {
+		return "";
+	}
+	const trimmed = raw.trim().replace(/^["']|["']$/g, "");
+	const linkMatch = trimmed.match(/^!?\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/);
+	const target = linkMatch?.[1] ?? trimmed;
+	return target.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+}
+
 export function resolveVaultFolderPath(
 	app: App,
 	folderPath: string
@@ -338,15 +513,20 @@ function collectImageFiles(folder: TFolder, output: TFile[]): void {
 }
 
 function isImageFile(file: TFile): boolean {
-	return IMAGE_EXTENSIONS.has(file.extension.toLowerCase());
+	const ext = file.extension.toLowerCase();
+	return IMAGE_EXTENSIONS.has(ext) || VIDEO_EXTENSIONS.has(ext);
 }
 
 function isImageExtension(filename: string): boolean {
-	const ext = filename.split(".").pop();
-	if (!ext) {
-		return false;
-	}
-	return IMAGE_EXTENSIONS.has(ext.toLowerCase());
+	return isBackgroundPath(filename);
+}
+
+function getPathExtension(pathValue: string): string {
+	// Ignore query strings and fragments so URLs work as well as paths.
+	const cleanPath = pathValue.split(/[?#]/)[0] ?? "";
+	const filename = cleanPath.split("/").pop() ?? "";
+	const dotIndex = filename.lastIndexOf(".");
+	return dotIndex > 0 ? filename.slice(dotIndex + 1).toLowerCase() : "";
 }
 
 function getRelativePath(folderPath: string, filePath: string): string {
@@ -0,0 +1,111 @@
+/* src/utils/profile-utils.ts
+ * Named appearance profiles that bundle image, colors and effects.
+ * Why: switching looks should be one action instead of re-editing several settings.
+ * Related: src/main.ts, src/settings.ts */
+import type {MyPluginSettings} from "../settings";
+import {BackgroundEffects, normalizeBackgroundEffects} from "./effect-utils";
+import type {ThemeColorVariable} from "./theme-variable-utils";
+
+export interface AppearanceProfile {
+	// Stable id used for the command id; survives renames.
+	id: string;
+	name: string;
+	selectedImagePath: string;
+	selectedImagePathLight: string;
+	cssVariableName: string;
+	cssVariableNameLight: string;
+	themeDarkBase00: string;
+	themeDarkBase10: string;
+	themeLightBase00: string;
+	themeLightBase10: string;
+	themeVariables: ThemeColorVariable[];
+	defaultEffects: BackgroundEffects;
+	imageEffects: Record<string, BackgroundEffects>;
+}
+
+export function captureAppearanceProfile(
+	settings: MyPluginSettings,
+	id: string,
+	name: string
+): AppearanceProfile {
+	return {
+		id,
+		name,
+		selectedImagePath: settings.selectedImagePath,
+		selectedImagePathLight: settings.selectedImagePathLight,
+		cssVariableName: settings.cssVariableName,
+		cssVariableNameLight: settings.cssVariableNameLight,
+		themeDarkBase00: settings.themeDarkBase00,
+		themeDarkBase10: settings.themeDarkBase10,
+		themeLightBase00: settings.themeLightBase00,
+		themeLightBase10: settings.themeLightBase10,
+		themeVariables: settings.themeVariables.map((variable) => ({...variable})),
+		defaultEffects: {...settings.defaultEffects},
+		imageEffects: cloneImageEffects(settings.imageEffects),
+	};
+}
+
+/**
+ * Copy the profile into `settings`. Fields missing from older saved profiles keep their current value.
+ */
+export function applyAppearanceProfile(
+	settings: MyPluginSettings,
+	profile: AppearanceProfile
+): void {
+	settings.selectedImagePath = profile.selectedImagePath ?? settings.selectedImagePath;
+	settings.selectedImagePathLight =
+		profile.selectedImagePathLight ?? settings.selectedImagePathLight;
+	settings.cssVariableName = profile.cssVariableName ?? settings.cssVariableName;
+	settings.cssVariableNameLight = profile.cssVariableNameLight ?? settings.cssVariableNameLight;
+	settings.themeDarkBase00 = profile.themeDarkBase00 ?? settings.themeDarkBase00;
+	settings.themeDarkBase10 = profile.themeDarkBase10 ?? settings.themeDarkBase10;
+	settings.themeLightBase00 = profile.themeLightBase00 ?? settings.themeLightBase00;
+	settings.themeLightBase10 = profile.themeLightBase10 ?? settings.themeLightBase10;
+	settings.themeVariables = (profile.themeVariables ?? settings.themeVariables).map(
+		(variable) => ({...variable})
+	);
+	settings.defaultEffects = normalizeBackgroundEffects(
+		profile.defaultEffects ?? settings.defaultEffects
+	);
+	settings.imageEffects = cloneImageEffects(profile.imageEffects ?? settings.imageEffects);
+}
+
+export function cloneAppearanceProfile(profile: AppearanceProfile): AppearanceProfile {
+	return {
+		...profile,
+		// Stays undefined for profiles saved before the table existed.
+		themeVariables: profile.themeVariables?.map((variable) => ({...variable})),
+		defaultEffects: {...profile.defaultEffects},
+		imageEffects: cloneImageEffects(profile.imageEffects ?? {}),
+	};
+}
+
+/**
+ * Build a command-safe id from the name, suffixed when it collides with an existing profile.
+ */
+export function createProfileId(name: string, profiles: AppearanceProfile[]): string {
+	const base =
+		name
+			.trim()
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "profile";
+	const used = new Set(profiles.map((profile) => profile.id));
+	let id = base;
+	let counter = 2;
+	while (used.has(id)) {
+		id = `${base}-${counter}`;
+		counter += 1;
+	}
+	return id;
+}
+
+function cloneImageEffects(
+	effects: Record<string, BackgroundEffects>
+): Record<string, BackgroundEffects> {
+	const copy: Record<string, BackgroundEffects> = {};
+	for (const [key, value] of Object.entries(effects)) {
+		copy[key] = {...value};
+	}
+	return copy;
+}
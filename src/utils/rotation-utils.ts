@@ -0,0 +1,93 @@
+/* src/utils/rotation-utils.ts
+ * Ordering helpers for the background rotation scheduler.
+ * Why: keeps playlist and shuffle logic pure so the plugin only owns timers.
+ * Related: src/main.ts, src/settings.ts, src/ui/background-picker-overlay.ts */
+
+export type RotationSource = "folder" | "shuffle" | "playlist";
+
+export interface BackgroundPlaylist {
+	name: string;
+	paths: string[];
+}
+
+export const ROTATION_SOURCES: {value: RotationSource; label: string}[] = [
+	{value: "folder", label: "Whole folder (in order)"},
+	{value: "shuffle", label: "Whole folder (shuffled)"},
+	{value: "playlist", label: "Playlist"},
+];
+
+export function normalizePlaylistPath(value: string): string {
+	return value.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+}
+
+export function parsePlaylistPaths(value: string): string[] {
+	return value
+		.split(/\r?\n/)
+		.map((line) => normalizePlaylistPath(line))
+		.filter((line) => line.length > 0);
+}
+
+export function findPlaylist(
+	playlists: BackgroundPlaylist[],
+	name: string
+): BackgroundPlaylist | null {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		return null;
+	}
+	return playlists.find((playlist) => playlist.name === trimmed) ?? null;
+}
+
+/**
+ * Build the rotation order from the paths the picker can currently resolve.
+ * Playlist entries that are missing or filtered out are skipped, not kept.
+ */
+export function buildRotationOrder(
+	source: RotationSource,
+	availablePaths: string[],
+	playlist: BackgroundPlaylist | null
+): string[] {
+	if (source === "playlist") {
+		if (!playlist) {
+			return [];
+		}
+		const available = new Set(availablePaths.map((value) => normalizePlaylistPath(value)));
+		return playlist.paths
+			.map((value) => normalizePlaylistPath(value))
+			.filter((value) => available.has(value));
+	}
+	const ordered = availablePaths.map((value) => normalizePlaylistPath(value));
+	return source === "shuffle" ? shufflePaths(ordered) : ordered;
+}
+
+export function pickNextRotationPath(order: string[], currentPath: string): string {
+	if (order.length === 0) {
+		return "";
+	}
+	const index = order.indexOf(normalizePlaylistPath(currentPath));
+	// Unknown current paths restart from the top of the order.
+	return order[(index + 1) % order.length] ?? "";
+}
+
+export function shufflePaths(paths: string[]): string[] {
+	const shuffled = [...paths];
+	for (let index = shuffled.length - 1; index > 0; index -= 1) {
+		const swapIndex = Math.floor(Math.random() * (index + 1));
+		const value = shuffled[index];
+		const swapValue = shuffled[swapIndex];
+		if (value === undefined || swapValue === undefined) {
+			continue;
+		}
+		shuffled[index] = swapValue;
+		shuffled[swapIndex] = value;
+	}
+	return shuffled;
+}
+
+export function isSameRotationSet(order: string[], paths: string[]): boolean {
+	if (order.length !== paths.length) {
+		return false;
+	}
+	const lookup = new Set(order);
+	return paths.every((value) => lookup.has(normalizePlaylistPath(value)));
+}
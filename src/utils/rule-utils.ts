@@ -0,0 +1,90 @@
+/* src/utils/rule-utils.ts
+ * Folder glob and tag matching for background rules.
+ * Why: keeps rule evaluation pure so the plugin can cache results per file.
+ * Related: src/main.ts, src/settings.ts */
+
+export type BackgroundRuleType = "folder" | "tag";
+
+export interface BackgroundRule {
+	type: BackgroundRuleType;
+	pattern: string;
+	target: string;
+}
+
+export function createBackgroundRule(): BackgroundRule {
+	return {type: "folder", pattern: "", target: ""};
+}
+
+/**
+ * Return the first rule matching the file, or null.
+ * Rules without a pattern or target are ignored so half-edited rows are harmless.
+ */
+export function findMatchingRule(
+	rules: BackgroundRule[],
+	filePath: string,
+	tags: string[]
+): BackgroundRule | null {
+	const normalizedTags = tags.map((tag) => normalizeTag(tag));
+	for (const rule of rules) {
+		if (!rule.pattern.trim() || !rule.target.trim()) {
+			continue;
+		}
+		if (rule.type === "tag" && matchesTag(rule.pattern, normalizedTags)) {
+			return rule;
+		}
+		if (rule.type === "folder" && matchesFolderPattern(rule.pattern, filePath)) {
+			return rule;
+		}
+	}
+	return null;
+}
+
+export function matchesFolderPattern(pattern: string, filePath: string): boolean {
+	const normalized = pattern.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+	if (!normalized) {
+		return false;
+	}
+	if (!/[*?]/.test(normalized)) {
+		// A plain folder path matches everything below it.
+		const folder = normalized.replace(/\/+$/, "");
+		return filePath === folder || filePath.startsWith(`${folder}/`);
+	}
+	return globToRegExp(normalized).test(filePath);
+}
+
+export function matchesTag(pattern: string, normalizedTags: string[]): boolean {
+	const target = normalizeTag(pattern);
+	if (!target) {
+		return false;
+	}
+	// Nested tags (#journal/2024) count as matches for their parent.
+	return normalizedTags.some((tag) => tag === target || tag.startsWith(`${target}/`));
+}
+
+function normalizeTag(value: string): string {
+	return value.trim().replace(/^#+/, "").toLowerCase();
+}
+
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let index = 0; index < pattern.length; index += 1) {
+		const char = pattern[index] ?? "";
+		if (char === "*") {
+			if (pattern[index + 1] === "*") {
+				// `**/` also matches zero folders.
+				const followedBySlash = pattern[index + 2] === "/";
+				source += followedBySlash ? "(?:.*/)?" : ".*";
+				index += followedBySlash ? 2 : 1;
+				continue;
+			}
+			source += "[^/]*";
+			continue;
+		}
+		if (char === "?") {
+			source += "[^/]";
+			continue;
+		}
+		source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+	}
+	return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,103 @@
+/* src/utils/schedule-utils.ts
+ * Time-of-day schedule matching for background changes.
+ * Why: keeps clock math (midnight wrap, weekdays) out of the plugin lifecycle code.
+ * Related: src/main.ts, src/settings.ts, src/utils/rotation-utils.ts */
+
+export type ScheduleTargetType = "image" | "playlist";
+
+export interface ScheduleEntry {
+	// Stable id so editing or deleting other rows does not re-trigger this one.
+	id: string;
+	start: string;
+	end: string;
+	// 0 = Sunday ... 6 = Saturday. Empty means every day.
+	days: number[];
+	targetType: ScheduleTargetType;
+	target: string;
+}
+
+export interface ActiveScheduleEntry {
+	entry: ScheduleEntry;
+	index: number;
+	// Identifies one occurrence so a boundary fires once per day.
+	key: string;
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const CLOCK_REGEX = /^(\d{1,2}):(\d{2})$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export function parseClockTime(value: string): number | null {
+	const match = value.trim().match(CLOCK_REGEX);
+	if (!match?.[1] || !match[2]) {
+		return null;
+	}
+	const hours = Number.parseInt(match[1], 10);
+	const minutes = Number.parseInt(match[2], 10);
+	if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+		return null;
+	}
+	return hours * 60 + minutes;
+}
+
+export function createScheduleEntry(entries: ScheduleEntry[]): ScheduleEntry {
+	const used = new Set(entries.map((entry) => entry.id));
+	let id = `schedule-${Date.now().toString(36)}`;
+	while (used.has(id)) {
+		id = `${id}x`;
+	}
+	return {id, start: "06:00", end: "11:00", days: [], targetType: "image", target: ""};
+}
+
+/**
+ * Return the first entry whose range covers `now`, or null.
+ * Ranges that end before they start wrap past midnight; weekdays refer to the start day.
+ * Entries whose target fails `isTargetAvailable` are skipped.
+ */
+export function findActiveScheduleEntry(
+	entries: ScheduleEntry[],
+	now: Date,
+	isTargetAvailable: (entry: ScheduleEntry) => boolean = () => true
+): ActiveScheduleEntry | null {
+	const minutes = now.getHours() * 60 + now.getMinutes();
+	for (const [index, entry] of entries.entries()) {
+		if (!entry.target.trim() || !isTargetAvailable(entry)) {
+			continue;
+		}
+		const start = parseClockTime(entry.start);
+		const end = parseClockTime(entry.end);
+		if (start === null || end === null || start === end) {
+			continue;
+		}
+		const occurrence = getOccurrenceStart(start, end, minutes, now);
+		if (!occurrence) {
+			continue;
+		}
+		if (entry.days.length > 0 && !entry.days.includes(occurrence.getDay())) {
+			continue;
+		}
+		const day = `${occurrence.getFullYear()}-${occurrence.getMonth() + 1}-${occurrence.getDate()}`;
+		return {
+			entry,
+			index,
+			key: `${entry.id}|${day}`,
+		};
+	}
+	return null;
+}
+
+function getOccurrenceStart(start: number, end: number, minutes: number, now: Date): Date | null {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	if (start < end) {
+		return minutes >= start && minutes < end ? today : null;
+	}
+	// Wrapped range, e.g. 22:00-02:00.
+	if (minutes >= start) {
+		return today;
+	}
+	if (minutes < end % MINUTES_PER_DAY) {
+		return new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+	}
+	return null;
+}
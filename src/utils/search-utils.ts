@@ -0,0 +1,66 @@
+/* src/utils/search-utils.ts
+ * Fuzzy matching for the picker search field.
+ * Why: file names are rarely remembered exactly; subsequence matching finds "frst" in forest.jpg.
+ * Related: src/ui/background-picker-overlay.ts */
+
+/**
+ * Score `query` as an in-order subsequence of `text`; null when it does not match.
+ * Consecutive characters and matches at word starts score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const needle = query.toLowerCase();
+	const haystack = text.toLowerCase();
+	if (!needle) {
+		return 0;
+	}
+	let score = 0;
+	let streak = 0;
+	let position = 0;
+	for (const char of needle) {
+		const index = haystack.indexOf(char, position);
+		if (index === -1) {
+			return null;
+		}
+		streak = index === position ? streak + 1 : 1;
+		score += streak;
+		const previous = haystack[index - 1];
+		if (index === 0 || (previous !== undefined && /[\s/_.-]/.test(previous))) {
+			score += 3;
+		}
+		position = index + 1;
+	}
+	return score;
+}
+
+/**
+ * Keep items where every whitespace-separated term matches one of the fields, best
+ * matches first. Ties keep their original order so the caller's sort still shows through.
+ */
+export function filterByFuzzyQuery<T>(
+	items: T[],
+	query: string,
+	getFields: (item: T) => string[]
+): T[] {
+	const terms = query.trim().split(/\s+/).filter((term) => term.length > 0);
+	if (terms.length === 0) {
+		return items;
+	}
+	const matches: {item: T; score: number; index: number}[] = [];
+	items.forEach((item, index) => {
+		const fields = getFields(item);
+		let score = 0;
+		for (const term of terms) {
+			const scores = fields
+				.map((field) => fuzzyScore(term, field))
+				.filter((value): value is number => value !== null);
+			if (scores.length === 0) {
+				return;
+			}
+			score += Math.max(...scores);
+		}
+		matches.push({item, score, index});
+	});
+	return matches
+		.sort((left, right) => right.score - left.score || left.index - right.index)
+		.map((match) => match.item);
+}
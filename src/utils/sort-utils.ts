@@ -0,0 +1,52 @@
+/* src/utils/sort-utils.ts
+ * Sort orders for the picker grid.
+ * Why: newest or largest wallpapers are often what the user is looking for, not the first by name.
+ * Related: src/ui/background-picker-overlay.ts, src/utils/image-utils.ts */
+import type {ImageItem} from "./image-utils";
+
+export type BackgroundSortMode = "name" | "newest" | "oldest" | "largest" | "random";
+
+export const BACKGROUND_SORT_MODES: {value: BackgroundSortMode; label: string}[] = [
+	{value: "name", label: "Name"},
+	{value: "newest", label: "Newest"},
+	{value: "oldest", label: "Oldest"},
+	{value: "largest", label: "Largest"},
+	{value: "random", label: "Random"},
+];
+
+/**
+ * Return a sorted copy. Items without metadata (HTML listings) sort as 0 and fall back to name.
+ */
+export function sortImageItems(items: ImageItem[], mode: BackgroundSortMode): ImageItem[] {
+	const byName = (left: ImageItem, right: ImageItem): number =>
+		left.displayName.localeCompare(right.displayName);
+	const sorted = [...items];
+	switch (mode) {
+		case "newest":
+			return sorted.sort(
+				(left, right) => (right.mtime ?? 0) - (left.mtime ?? 0) || byName(left, right)
+			);
+		case "oldest":
+			return sorted.sort(
+				(left, right) => (left.mtime ?? 0) - (right.mtime ?? 0) || byName(left, right)
+			);
+		case "largest":
+			return sorted.sort(
+				(left, right) => (right.size ?? 0) - (left.size ?? 0) || byName(left, right)
+			);
+		case "random":
+			for (let index = sorted.length - 1; index > 0; index -= 1) {
+				const swapIndex = Math.floor(Math.random() * (index + 1));
+				const value = sorted[index];
+				const swapValue = sorted[swapIndex];
+				if (value === undefined || swapValue === undefined) {
+					continue;
+				}
+				sorted[index] = swapValue;
+				sorted[swapIndex] = value;
+			}
+			return sorted;
+		default:
+			return sorted.sort(byName);
+	}
+}
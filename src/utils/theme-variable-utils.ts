@@ -0,0 +1,87 @@
+/* src/utils/theme-variable-utils.ts
+ * User-managed theme color variables and the stylesheet they are written to.
+ * Why: themes expose more colors than base 00/10; editing them here replaces a separate snippet.
+ * Related: src/main.ts, src/settings.ts, src/utils/color-utils.ts */
+import {normalizeRgbaString} from "./color-utils";
+import {isValidCssVariableName} from "./css-target-utils";
+
+export type ThemeVariableScope = "dark" | "light" | "body";
+
+export interface ThemeColorVariable {
+	name: string;
+	value: string;
+	scope: ThemeVariableScope;
+}
+
+export const THEME_VARIABLE_SELECTORS: Record<ThemeVariableScope, string> = {
+	body: "body",
+	dark: ".theme-dark",
+	light: ".theme-light",
+};
+
+export const DEFAULT_THEME_VARIABLE_COLOR = "rgba(0, 0, 0, 1)";
+
+export function createThemeColorVariable(): ThemeColorVariable {
+	return {name: "", value: DEFAULT_THEME_VARIABLE_COLOR, scope: "dark"};
+}
+
+export function getTonalVariableName(step: number): string {
+	return `--my-color-base-${String(step).padStart(2, "0")}`;
+}
+
+/**
+ * Replace the value of existing rows with the same name and scope; append the rest.
+ */
+export function upsertThemeVariables(
+	variables: ThemeColorVariable[],
+	scope: ThemeVariableScope,
+	entries: Array<[string, string]>
+): ThemeColorVariable[] {
+	const next = variables.map((variable) => ({...variable}));
+	for (const [name, value] of entries) {
+		const existing = next.find(
+			(variable) => variable.scope === scope && variable.name.trim() === name
+		);
+		if (existing) {
+			existing.value = value;
+			continue;
+		}
+		next.push({name, value, scope});
+	}
+	return next;
+}
+
+/**
+ * Render one block per scope. `declarations` come first so table rows can override them;
+ * rows with an invalid name are skipped so half-typed entries never break the sheet.
+ */
+export function buildThemeVariableCss(
+	declarations: Record<ThemeVariableScope, Array<[string, string]>>,
+	variables: ThemeColorVariable[]
+): string {
+	const blocks: Record<ThemeVariableScope, Array<[string, string]>> = {
+		body: [...declarations.body],
+		dark: [...declarations.dark],
+		light: [...declarations.light],
+	};
+	for (const variable of variables) {
+		const name = variable.name.trim();
+		if (!isValidCssVariableName(name)) {
+			continue;
+		}
+		blocks[variable.scope].push([
+			name,
+			normalizeRgbaString(variable.value, DEFAULT_THEME_VARIABLE_COLOR),
+		]);
+	}
+	let css = "";
+	for (const scope of ["body", "dark", "light"] as const) {
+		const lines = blocks[scope];
+		if (lines.length === 0) {
+			continue;
+		}
+		const body = lines.map(([name, value]) => `  ${name}: ${value};\n`).join("");
+		css += `${THEME_VARIABLE_SELECTORS[scope]} {\n${body}}\n`;
+	}
+	return css;
+}